@@ -0,0 +1,70 @@
+// Bakes a scene file without a browser, see `runHeadlessBake`:
+//   npm run bake -- <scene file> [settings file] [output directory]
+// The settings file holds `HeadlessBakeSettings` as JSON.
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import {
+  createHeadlessEngine,
+  loadHeadlessScene,
+  runHeadlessBake,
+} from "../dist-ssr/index.js";
+
+const [scenePath, settingsPath, outputDir = "bake"] = process.argv.slice(2);
+if (!scenePath) {
+  console.error(
+    "Usage: npm run bake -- <scene file> [settings file] [output directory]"
+  );
+  process.exit(1);
+}
+
+try {
+  await import("@babylonjs/loaders/glTF/index.js");
+} catch (error) {
+  // Other scene formats load without it
+  if ([".glb", ".gltf"].includes(extname(scenePath).toLowerCase())) {
+    console.error(
+      `Loading ${basename(scenePath)} requires the glTF loader of @babylonjs/loaders, run npm install first.`
+    );
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Rendering requires a WebGL context, e.g. from the optional `gl` package.
+// The NullEngine only generates the lightmap UVs and the manifest.
+let context = null;
+try {
+  const { default: createContext } = await import("gl");
+  context = createContext(1, 1, { preserveDrawingBuffer: true });
+} catch {
+  console.warn("No WebGL context available, the lights won't be baked.");
+}
+
+const engine = createHeadlessEngine(context);
+const settings = settingsPath
+  ? JSON.parse(await readFile(settingsPath, "utf8"))
+  : {};
+const scene = await loadHeadlessScene(
+  engine,
+  await readFile(scenePath),
+  basename(scenePath)
+);
+
+const { shadowMap, files } = await runHeadlessBake(
+  scene,
+  settings,
+  ({ iteration, totalIterations }) => {
+    console.log(`Iteration ${iteration}/${totalIterations}`);
+  }
+);
+
+await mkdir(outputDir, { recursive: true });
+for (const { name, data } of files) {
+  const contents = typeof data === "string" ? data : new Uint8Array(data);
+  await writeFile(join(outputDir, name), contents);
+  console.log(`Wrote ${join(outputDir, name)}`);
+}
+
+shadowMap.dispose();
+scene.dispose();
+engine.dispose();
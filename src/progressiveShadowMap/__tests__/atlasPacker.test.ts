@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { packAtlasPages, writeChartUVs } from "../atlasPacker";
+import type { LightmapChart } from "../types";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function createChart(width: number, height: number): LightmapChart {
+  return {
+    vertexStart: 0,
+    vertexCount: 4,
+    coords: new Float32Array([0, 0, width, 0, width, height, 0, height]),
+    width,
+    height,
+  };
+}
+
+describe("packAtlasPages", () => {
+  const resolution = 64;
+  const meshCharts = [
+    [createChart(1, 1)],
+    [createChart(2, 0.5), createChart(0.5, 0.5)],
+    [createChart(1.5, 1.5)],
+    [createChart(0.25, 2)],
+    null,
+  ];
+
+  it("keeps the UV2 of every page inside 0..1", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const layout = packAtlasPages(meshCharts, {
+      resolution,
+      texelsPerUnit: 24,
+      padding: 2,
+      maxPages: 4,
+    });
+
+    expect(warn).not.toHaveBeenCalled();
+    expect(layout.pages.length).toBeGreaterThan(1);
+    expect(layout.meshPages[4]).toBe(-1);
+    for (const [pageIndex, page] of layout.pages.entries()) {
+      let chartOffset = 0;
+      for (const meshIndex of page.meshIndices) {
+        expect(layout.meshPages[meshIndex]).toBe(pageIndex);
+        const charts = meshCharts[meshIndex]!;
+        const placements = page.packing.placements.slice(
+          chartOffset,
+          chartOffset + charts.length
+        );
+        chartOffset += charts.length;
+
+        for (const [index, chart] of charts.entries()) {
+          const uvs = new Float32Array(chart.vertexCount * 2);
+          writeChartUVs(
+            [chart],
+            [placements[index]],
+            layout.texelsPerUnit,
+            resolution,
+            uvs
+          );
+          for (const uv of uvs) {
+            expect(uv).toBeGreaterThanOrEqual(0);
+            expect(uv).toBeLessThanOrEqual(1);
+          }
+        }
+      }
+    }
+  });
+
+  it("lowers the density to fit the page limit", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const layout = packAtlasPages(meshCharts, {
+      resolution,
+      texelsPerUnit: 24,
+      padding: 2,
+      maxPages: 1,
+    });
+
+    expect(layout.pages).toHaveLength(1);
+    expect(layout.texelsPerUnit).toBeLessThan(24);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,109 @@
+import * as BABYLON from "@babylonjs/core";
+import { afterEach, describe, expect, it } from "vitest";
+import { applyBakeManifest } from "../bakeManifest";
+import { ProgressiveShadowMap } from "../progressiveShadowMap";
+import type { BakeManifest, UV2GenerationMode } from "../types";
+import { createTestMeshes, createTestScene, getData } from "./helpers";
+import type { TestScene } from "./helpers";
+
+describe("bake manifests", () => {
+  const scenes: TestScene[] = [];
+  const createScene = () => {
+    const testScene = createTestScene();
+    scenes.push(testScene);
+    return testScene;
+  };
+
+  afterEach(() => {
+    scenes.forEach(({ engine }) => engine.dispose());
+    scenes.length = 0;
+  });
+
+  it.each<UV2GenerationMode>(["reuseUV1", "unwrap"])(
+    "restores the baked %s UVs",
+    async (uvGenerationMode) => {
+      const { scene, light } = createScene();
+      const meshes = createTestMeshes(scene);
+      const shadowMap = new ProgressiveShadowMap(scene, light, {
+        resolution: 128,
+        uvGenerationMode,
+      });
+      shadowMap.addMeshes(meshes);
+      const manifest: BakeManifest = JSON.parse(
+        JSON.stringify(
+          await shadowMap.createBakeManifest({
+            pageImageUrl: (pageIndex) => `page${pageIndex}.png`,
+          })
+        )
+      );
+
+      const target = createScene();
+      createTestMeshes(target.scene);
+      const { meshes: applied, textures } = applyBakeManifest(
+        target.scene,
+        manifest
+      );
+
+      expect(textures.map((texture) => texture?.name)).toEqual([
+        "bakedShadowMap_page0",
+      ]);
+      expect(applied.map(({ name }) => name)).toEqual(["ground", "box"]);
+      applied.forEach((mesh, index) => {
+        const baked = meshes[index];
+        expect(getData(mesh, BABYLON.VertexBuffer.UV2Kind)).not.toBeNull();
+        for (const kind of [
+          BABYLON.VertexBuffer.UV2Kind,
+          BABYLON.VertexBuffer.PositionKind,
+          BABYLON.VertexBuffer.NormalKind,
+        ]) {
+          expect(getData(mesh, kind)).toEqual(getData(baked, kind));
+        }
+        expect(Array.from(mesh.getIndices()!)).toEqual(
+          Array.from(baked.getIndices()!)
+        );
+        const material = mesh.material as BABYLON.StandardMaterial;
+        expect(material.lightmapTexture).toBe(textures[0]);
+        expect(material.useLightmapAsShadowmap).toBe(true);
+      });
+    }
+  );
+
+  it("leaves the lightmaps of unbaked pages alone", async () => {
+    const { scene, light } = createScene();
+    const shadowMap = new ProgressiveShadowMap(scene, light);
+    shadowMap.addMeshes(createTestMeshes(scene));
+    const manifest = await shadowMap.createBakeManifest({
+      pageImageUrl: () => null,
+    });
+    expect(manifest.pages.map(({ image }) => image)).toEqual([null]);
+
+    const target = createScene();
+    const [ground] = createTestMeshes(target.scene);
+    const material = ground.material as BABYLON.StandardMaterial;
+    const lightmap = new BABYLON.Texture(null, target.scene);
+    material.lightmapTexture = lightmap;
+    const { textures } = applyBakeManifest(target.scene, manifest);
+
+    expect(textures).toEqual([null]);
+    expect(getData(ground, BABYLON.VertexBuffer.UV2Kind)).not.toBeNull();
+    expect(material.lightmapTexture === lightmap).toBe(true);
+  });
+
+  it("rejects meshes whose geometry changed", async () => {
+    const { scene, light } = createScene();
+    const shadowMap = new ProgressiveShadowMap(scene, light);
+    shadowMap.addMeshes(createTestMeshes(scene));
+    const manifest = await shadowMap.createBakeManifest({
+      pageImageUrl: () => "page.png",
+    });
+
+    const target = createScene();
+    const [ground] = createTestMeshes(target.scene);
+    ground.scaling.x = 2;
+    ground.bakeCurrentTransformIntoVertices();
+
+    expect(() => applyBakeManifest(target.scene, manifest)).toThrow(
+      /Geometry of mesh ground does not match the bake/
+    );
+  });
+});
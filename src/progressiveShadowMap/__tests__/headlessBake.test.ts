@@ -0,0 +1,57 @@
+import * as BABYLON from "@babylonjs/core";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  createHeadlessEngine,
+  HEADLESS_MANIFEST_FILE,
+  runHeadlessBake,
+} from "../headlessBake";
+import type { BakeManifest } from "../types";
+import { createTestMeshes, createTestScene, getGeometryState } from "./helpers";
+import type { TestScene } from "./helpers";
+
+describe("runHeadlessBake", () => {
+  let testScene: TestScene | null = null;
+
+  afterEach(() => {
+    testScene?.engine.dispose();
+    testScene = null;
+  });
+
+  it("creates a null engine without a WebGL context", () => {
+    const engine = createHeadlessEngine();
+    expect(engine).toBeInstanceOf(BABYLON.NullEngine);
+    engine.dispose();
+  });
+
+  it("writes the manifest of an unrendered bake on a null engine", async () => {
+    testScene = createTestScene();
+    const { scene } = testScene;
+    const meshes = createTestMeshes(scene);
+    const geometries = meshes.map(getGeometryState);
+
+    const { shadowMap, files, rendered } = await runHeadlessBake(scene, {
+      options: { resolution: 64, uvGenerationMode: "unwrap" },
+      meshes: ["box"],
+    });
+
+    expect(rendered).toBe(false);
+    expect(files.map(({ name }) => name)).toEqual([HEADLESS_MANIFEST_FILE]);
+    const manifest: BakeManifest = JSON.parse(files[0].data as string);
+    // Nothing was rendered, so there are no page images to reference
+    expect(manifest.pages.map(({ image }) => image)).toEqual([null]);
+    expect(manifest.meshes.map(({ name }) => name)).toEqual(["box"]);
+    expect(manifest.meshes[0].vertexRemap).toBeDefined();
+    expect(manifest.settings.uvGenerationMode).toBe("unwrap");
+
+    shadowMap.dispose();
+    expect(meshes.map(getGeometryState)).toEqual(geometries);
+  });
+
+  it("requires meshes to bake", async () => {
+    testScene = createTestScene();
+
+    await expect(
+      runHeadlessBake(testScene.scene, { meshes: ["missing"] })
+    ).rejects.toThrow("No meshes to bake found in the scene.");
+  });
+});
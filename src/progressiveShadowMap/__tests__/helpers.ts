@@ -0,0 +1,255 @@
+import * as BABYLON from "@babylonjs/core";
+import type { LightmapUnwrapResult } from "../lightmapUnwrapper";
+
+// Keeps the engine banner out of the test output
+BABYLON.Logger.LogLevels =
+  BABYLON.Logger.WarningLogLevel | BABYLON.Logger.ErrorLogLevel;
+
+export interface TestScene {
+  engine: BABYLON.NullEngine;
+  scene: BABYLON.Scene;
+  light: BABYLON.DirectionalLight;
+}
+
+/**
+ * Scene on a `NullEngine`, with a camera and a shadow casting directional
+ * light. Nothing renders, so render targets never become ready.
+ */
+export function createTestScene(): TestScene {
+  const engine = new BABYLON.NullEngine();
+  engine.getCaps().instancedArrays = true;
+  const scene = new BABYLON.Scene(engine);
+  new BABYLON.FreeCamera("camera", new BABYLON.Vector3(0, 5, -10), scene);
+  const light = new BABYLON.DirectionalLight(
+    "light",
+    new BABYLON.Vector3(-1, -2, 1),
+    scene
+  );
+  new BABYLON.ShadowGenerator(256, light);
+
+  return { engine, scene, light };
+}
+
+/** Ground and box, with materials, the tests bake. */
+export function createTestMeshes(scene: BABYLON.Scene): BABYLON.Mesh[] {
+  const ground = BABYLON.MeshBuilder.CreateGround(
+    "ground",
+    { width: 6, height: 6 },
+    scene
+  );
+  ground.material = new BABYLON.StandardMaterial("groundMaterial", scene);
+
+  const box = BABYLON.MeshBuilder.CreateBox("box", { size: 1 }, scene);
+  box.position.y = 0.5;
+  box.material = new BABYLON.PBRMaterial("boxMaterial", scene);
+
+  return [ground, box];
+}
+
+export function getData(
+  mesh: BABYLON.AbstractMesh,
+  kind: string
+): number[] | null {
+  const data = mesh.getVerticesData(kind);
+  return data ? Array.from(data) : null;
+}
+
+/** Vertex data, indices and sub-meshes of a mesh, to compare geometries. */
+export function getGeometryState(mesh: BABYLON.Mesh) {
+  return {
+    kinds: mesh.getVerticesDataKinds().sort(),
+    buffers: Object.fromEntries(
+      mesh.getVerticesDataKinds().map((kind) => [kind, getData(mesh, kind)])
+    ),
+    indices: Array.from(mesh.getIndices() ?? []),
+    subMeshes: mesh.subMeshes.map(({ indexStart, indexCount }) => [
+      indexStart,
+      indexCount,
+    ]),
+  };
+}
+
+/** Renders the scene on its engine's render loop until the job is over. */
+export async function runBakeJob(
+  scene: BABYLON.Scene,
+  job: PromiseLike<void>
+): Promise<void> {
+  const engine = scene.getEngine();
+  const renderLoop = () => scene.render();
+  engine.runRenderLoop(renderLoop);
+  try {
+    await job;
+  } finally {
+    engine.stopRenderLoop(renderLoop);
+  }
+}
+
+/** Every subset of the defines, to check each shader variant. */
+export function getDefineCombinations(names: string[]): Set<string>[] {
+  return Array.from(
+    { length: 2 ** names.length },
+    (_, mask) => new Set(names.filter((_, i) => mask & (2 ** i)))
+  );
+}
+
+/**
+ * Keeps the lines of the shader code enabled by the defines, for the
+ * `#ifdef`, `#ifndef`, `#if`, `#elif`, `#else` and `#endif` directives the
+ * plugins use, with `defined()` terms joined by `&&` or `||`.
+ */
+export function preprocessShaderCode(
+  code: string,
+  defines: Set<string>
+): string {
+  const isDefined = (expression: string) =>
+    expression.split("||").some((clause) =>
+      clause.split("&&").every((term) => {
+        const match = /^\s*(!?)\s*defined\((\w+)\)\s*$/.exec(term);
+        if (!match) {
+          throw new Error(`Unsupported shader condition: ${expression}`);
+        }
+        return defines.has(match[2]) !== (match[1] === "!");
+      })
+    );
+  // Whether the parent block is active, and whether a branch was taken
+  const blocks: { active: boolean; taken: boolean }[] = [];
+  const isActive = () => blocks.every((block) => block.active);
+  const lines: string[] = [];
+
+  for (const line of code.split("\n")) {
+    const [, directive, argument = ""] =
+      /^\s*#(\w+)\s*(.*?)\s*$/.exec(line) ?? [];
+    const block = blocks[blocks.length - 1];
+    if (directive === "ifdef" || directive === "ifndef") {
+      const active = defines.has(argument) === (directive === "ifdef");
+      blocks.push({ active, taken: active });
+    } else if (directive === "if") {
+      const active = isDefined(argument);
+      blocks.push({ active, taken: active });
+    } else if (directive === "elif" || directive === "else") {
+      if (!block) {
+        throw new Error(`#${directive} outside of a block.`);
+      }
+      block.active =
+        !block.taken && (directive === "else" || isDefined(argument));
+      block.taken ||= block.active;
+    } else if (directive === "endif") {
+      if (!blocks.pop()) {
+        throw new Error("#endif outside of a block.");
+      }
+    } else if (isActive()) {
+      lines.push(line);
+    }
+  }
+
+  if (blocks.length > 0) {
+    throw new Error("Unterminated shader block.");
+  }
+  return lines.join("\n");
+}
+
+/** Names of the WGSL declarations made with a keyword, e.g. `varying`. */
+export function getWGSLDeclarations(code: string, keyword: string): string[] {
+  return Array.from(
+    code.matchAll(new RegExp(`\\b${keyword}\\s+(\\w+)\\s*:`, "g")),
+    (match) => match[1]
+  );
+}
+
+/** Names read through a WGSL struct, e.g. `uniforms` or `fragmentInputs`. */
+export function getWGSLMembers(code: string, struct: string): string[] {
+  return Array.from(
+    new Set(
+      Array.from(
+        code.matchAll(new RegExp(`\\b${struct}\\.(\\w+)`, "g")),
+        (match) => match[1]
+      )
+    )
+  );
+}
+
+// GLSL types, functions and variables that don't exist in WGSL, and GLSL
+// uniform declarations, WGSL ones being `uniform name: type;`
+const GLSL_TOKENS =
+  /\b(gl_FragColor|gl_Position|texture2D|uniform(?!\s+\w+\s*:)|float|vec[234]|mat[234]|sampler2D)\b/g;
+
+/** GLSL left in WGSL code, outside of comments. */
+export function getGLSLTokens(code: string): string[] {
+  return code.replace(/\/\/.*$/gm, "").match(GLSL_TOKENS) ?? [];
+}
+
+/**
+ * Triangles of every chart of an unwrap, as `[u0, v0, u1, v1, u2, v2]` in
+ * chart units. Throws for triangles spanning several charts.
+ */
+export function getChartTriangles({
+  charts,
+  indices,
+}: LightmapUnwrapResult): number[][][] {
+  const chartOf = (vertex: number) =>
+    charts.findIndex(
+      ({ vertexStart, vertexCount }) =>
+        vertex >= vertexStart && vertex < vertexStart + vertexCount
+    );
+  const triangles: number[][][] = charts.map(() => []);
+  for (let i = 0; i < indices.length; i += 3) {
+    const chart = chartOf(indices[i]);
+    const { coords, vertexStart } = charts[chart];
+    triangles[chart].push(
+      Array.from(indices.subarray(i, i + 3)).flatMap((vertex) => {
+        if (chartOf(vertex) !== chart) {
+          throw new Error(`Triangle ${i / 3} spans several charts.`);
+        }
+        const local = vertex - vertexStart;
+        return [coords[local * 2], coords[local * 2 + 1]];
+      })
+    );
+  }
+  return triangles;
+}
+
+/** Twice the signed area of a 2D triangle, positive counterclockwise. */
+export function getSignedArea([u0, v0, u1, v1, u2, v2]: number[]): number {
+  return (u1 - u0) * (v2 - v0) - (v1 - v0) * (u2 - u0);
+}
+
+/**
+ * Whether the interiors of two 2D triangles overlap, i.e. two of their edges
+ * cross or one contains the center of the other. Touching ones don't.
+ */
+export function trianglesOverlap(
+  a: number[],
+  b: number[],
+  epsilon: number = 1e-7
+): boolean {
+  const side = (t: number[], e: number, u: number, v: number) => {
+    const [u0, v0] = [t[e * 2], t[e * 2 + 1]];
+    const [u1, v1] = [t[((e + 1) % 3) * 2], t[((e + 1) % 3) * 2 + 1]];
+    const value = (u1 - u0) * (v - v0) - (v1 - v0) * (u - u0);
+    return value > epsilon ? 1 : value < -epsilon ? -1 : 0;
+  };
+  const vertex = (t: number[], c: number): [number, number] => [
+    t[(c % 3) * 2],
+    t[(c % 3) * 2 + 1],
+  ];
+  const contains = (t: number[], u: number, v: number) => {
+    const sides = [0, 1, 2].map((e) => side(t, e, u, v));
+    return sides.every((s) => s > 0) || sides.every((s) => s < 0);
+  };
+  const center = (t: number[]): [number, number] => [
+    (t[0] + t[2] + t[4]) / 3,
+    (t[1] + t[3] + t[5]) / 3,
+  ];
+
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      if (
+        side(a, i, ...vertex(b, j)) * side(a, i, ...vertex(b, j + 1)) < 0 &&
+        side(b, j, ...vertex(a, i)) * side(b, j, ...vertex(a, i + 1)) < 0
+      ) {
+        return true;
+      }
+    }
+  }
+  return contains(a, ...center(b)) || contains(b, ...center(a));
+}
@@ -0,0 +1,164 @@
+import * as BABYLON from "@babylonjs/core";
+import { defaultVertexShaderWGSL } from "@babylonjs/core/ShadersWGSL/default.vertex";
+import { pbrVertexShaderWGSL } from "@babylonjs/core/ShadersWGSL/pbr.vertex";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { applyBakeManifest } from "../bakeManifest";
+import {
+  enableLightmapScaleOffset,
+  LightmapScaleOffsetMaterialPlugin,
+} from "../lightmapScaleOffsetMaterialPlugin";
+import { ProgressiveShadowMap } from "../progressiveShadowMap";
+import {
+  createTestScene,
+  getDefineCombinations,
+  getGLSLTokens,
+  getWGSLDeclarations,
+  getWGSLMembers,
+  preprocessShaderCode,
+} from "./helpers";
+import type { TestScene } from "./helpers";
+
+describe("LightmapScaleOffsetMaterialPlugin", () => {
+  let testScene: TestScene;
+
+  beforeEach(() => {
+    testScene = createTestScene();
+  });
+
+  afterEach(() => {
+    testScene.engine.dispose();
+  });
+
+  it("survives cloning its material", () => {
+    const material = new BABYLON.StandardMaterial("material", testScene.scene);
+    enableLightmapScaleOffset(material, 3)!.enabled = false;
+
+    const clone = material.clone("clone");
+    const plugin = clone.lightmapScaleOffsetPlugin!;
+    expect(plugin).toBeDefined();
+    expect(plugin === material.lightmapScaleOffsetPlugin).toBe(false);
+    expect(plugin.uvChannel).toBe(3);
+    expect(plugin.enabled).toBe(false);
+    expect(enableLightmapScaleOffset(clone, 3) === plugin).toBe(true);
+    expect(plugin.enabled).toBe(true);
+  });
+
+  it("lets the materials of an applied bake be cloned and baked again", async () => {
+    const { scene, light } = testScene;
+    const createBoxes = (targetScene: BABYLON.Scene) => {
+      const box = BABYLON.MeshBuilder.CreateBox("box", {}, targetScene);
+      box.material = new BABYLON.StandardMaterial("boxMaterial", targetScene);
+      box.thinInstanceAdd([
+        BABYLON.Matrix.Identity(),
+        BABYLON.Matrix.Translation(2, 0, 0),
+      ]);
+      return box;
+    };
+
+    const shadowMap = new ProgressiveShadowMap(scene, light);
+    shadowMap.addMeshes([createBoxes(scene)]);
+    const manifest = await shadowMap.createBakeManifest({
+      pageImageUrl: () => "page.png",
+    });
+    shadowMap.dispose();
+
+    const target = createTestScene();
+    try {
+      const box = createBoxes(target.scene);
+      applyBakeManifest(target.scene, manifest);
+      const material = box.material!;
+      expect(material.lightmapScaleOffsetPlugin?.enabled).toBe(true);
+      expect(material.clone("clone")?.lightmapScaleOffsetPlugin).toBeDefined();
+
+      // Baking the applied scene clones its materials
+      const rebake = new ProgressiveShadowMap(target.scene, target.light);
+      rebake.addMeshes([box]);
+      const bakeMaterials = target.scene.materials.filter(
+        ({ name }) => name === "uv_boxMaterial"
+      );
+      expect(bakeMaterials.length).toBe(2);
+      for (const bakeMaterial of bakeMaterials) {
+        expect(bakeMaterial.lightmapScaleOffsetPlugin?.enabled).toBe(false);
+      }
+      rebake.dispose();
+      expect(material.clone("clone")?.lightmapScaleOffsetPlugin).toBeDefined();
+    } finally {
+      target.engine.dispose();
+    }
+  });
+});
+
+describe("LightmapScaleOffsetMaterialPlugin WGSL code", () => {
+  const WGSL = BABYLON.ShaderLanguage.WGSL;
+  let testScene: TestScene;
+  let material: BABYLON.StandardMaterial;
+
+  beforeEach(() => {
+    testScene = createTestScene();
+    material = new BABYLON.StandardMaterial("material", testScene.scene);
+  });
+
+  afterEach(() => {
+    testScene.engine.dispose();
+  });
+
+  it("injects at the custom code points of the vertex shaders", () => {
+    const plugin = new LightmapScaleOffsetMaterialPlugin(material);
+    const vertex = plugin.getCustomCode("vertex", WGSL)!;
+
+    expect(plugin.getCustomCode("fragment", WGSL)).toBeNull();
+    expect(Object.keys(vertex)).toEqual([
+      "CUSTOM_VERTEX_DEFINITIONS",
+      "CUSTOM_VERTEX_MAIN_END",
+    ]);
+    for (const shader of [defaultVertexShaderWGSL, pbrVertexShaderWGSL]) {
+      Object.keys(vertex).forEach((pointName) =>
+        expect(shader.shader).toContain(`#define ${pointName}`)
+      );
+      expect(shader.shader).toContain("vertexOutputs.vMainUV2");
+    }
+    for (const [pointName, source] of Object.entries(vertex)) {
+      expect(getGLSLTokens(source), pointName).toEqual([]);
+    }
+  });
+
+  it("declares no uniforms", () => {
+    const plugin = new LightmapScaleOffsetMaterialPlugin(material);
+    expect(plugin.getUniforms(WGSL)).toEqual({});
+  });
+
+  it.each([2, 3])(
+    "declares what each define combination reads on UV channel %i",
+    (uvChannel) => {
+      const plugin = new LightmapScaleOffsetMaterialPlugin(material, uvChannel);
+      const vertex = plugin.getCustomCode("vertex", WGSL)!;
+      const mainUV = `MAINUV${uvChannel}`;
+
+      for (const defines of getDefineCombinations([
+        "LIGHTMAP_SCALE_OFFSET",
+        mainUV,
+      ])) {
+        const label = [...defines].join(" ") || "no defines";
+        const definitions = preprocessShaderCode(
+          vertex.CUSTOM_VERTEX_DEFINITIONS,
+          defines
+        );
+        const code =
+          definitions +
+          preprocessShaderCode(vertex.CUSTOM_VERTEX_MAIN_END, defines);
+        const attributes = getWGSLDeclarations(definitions, "attribute");
+
+        expect(getWGSLMembers(code, "vertexInputs"), label).toEqual(attributes);
+        expect(attributes, label).toEqual(
+          defines.has("LIGHTMAP_SCALE_OFFSET") ? ["lightmapScaleOffset"] : []
+        );
+        // The material declares and writes the UV varying of the channel
+        expect(getWGSLMembers(code, "vertexOutputs"), label).toEqual(
+          defines.has("LIGHTMAP_SCALE_OFFSET") && defines.has(mainUV)
+            ? [`vMainUV${uvChannel}`]
+            : []
+        );
+      }
+    }
+  );
+});
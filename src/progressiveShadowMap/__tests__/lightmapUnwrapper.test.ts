@@ -0,0 +1,143 @@
+import * as BABYLON from "@babylonjs/core";
+import { describe, expect, it } from "vitest";
+import { unwrapLightmapCharts } from "../lightmapUnwrapper";
+import type { LightmapUnwrapResult } from "../lightmapUnwrapper";
+import { getChartTriangles, getSignedArea, trianglesOverlap } from "./helpers";
+
+interface TestGeometry {
+  positions: number[];
+  indices: number[];
+}
+
+// Ramp winding one and a half turns around the y axis, rising slowly enough
+// for every triangle to face up like the first one
+function createSpiralRamp(): TestGeometry {
+  const positions: number[] = [];
+  const indices: number[] = [];
+  const steps = 36;
+  for (let i = 0; i <= steps; i++) {
+    const angle = (i / steps) * 3 * Math.PI;
+    for (const radius of [1, 2]) {
+      positions.push(
+        radius * Math.cos(angle),
+        angle * 0.05,
+        radius * Math.sin(angle)
+      );
+    }
+    if (i > 0) {
+      const a = (i - 1) * 2;
+      indices.push(a, a + 1, a + 2, a + 1, a + 3, a + 2);
+    }
+  }
+  return { positions, indices };
+}
+
+// Narrow flat top between two slopes falling away at 65 degrees, the first
+// one three times as wide as the second. The top seeds the chart, and the
+// narrow slope faces away from its average plane.
+function createRidge(): TestGeometry {
+  const angle = (65 * Math.PI) / 180;
+  const [c, s] = [Math.cos(angle), Math.sin(angle)];
+  const profile = [
+    [-3 * c, -3 * s],
+    [0, 0],
+    [0.1, 0],
+    [0.1 + c, -s],
+  ];
+  const positions = profile.flatMap(([x, y]) => [x, y, 0, x, y, 1]);
+  const quad = (k: number) => [
+    2 * k,
+    2 * k + 1,
+    2 * k + 2,
+    2 * k + 1,
+    2 * k + 3,
+    2 * k + 2,
+  ];
+  return { positions, indices: [...quad(1), ...quad(0), ...quad(2)] };
+}
+
+function fromVertexData(vertexData: BABYLON.VertexData): TestGeometry {
+  return {
+    positions: Array.from(vertexData.positions!),
+    indices: Array.from(vertexData.indices!),
+  };
+}
+
+function unwrap({ positions, indices }: TestGeometry): LightmapUnwrapResult {
+  return unwrapLightmapCharts(positions, indices);
+}
+
+// Charts of the unwrap holding each of the triangles
+function getTriangleCharts({
+  charts,
+  indices,
+}: LightmapUnwrapResult): number[] {
+  return Array.from({ length: indices.length / 3 }, (_, tri) =>
+    charts.findIndex(
+      ({ vertexStart, vertexCount }) =>
+        indices[tri * 3] >= vertexStart &&
+        indices[tri * 3] < vertexStart + vertexCount
+    )
+  );
+}
+
+describe("unwrapLightmapCharts", () => {
+  it.each<[string, () => TestGeometry]>([
+    ["box", () => fromVertexData(BABYLON.CreateBoxVertexData({}))],
+    [
+      "sphere",
+      () => fromVertexData(BABYLON.CreateSphereVertexData({ segments: 8 })),
+    ],
+    [
+      "torus",
+      () => fromVertexData(BABYLON.CreateTorusVertexData({ tessellation: 16 })),
+    ],
+    ["spiral ramp", createSpiralRamp],
+    ["ridge", createRidge],
+  ])("projects the charts of a %s without folds or overlaps", (_, create) => {
+    const geometry = create();
+    const result = unwrap(geometry);
+
+    expect(result.indices).toHaveLength(geometry.indices.length);
+    getChartTriangles(result).forEach((triangles, chart) => {
+      const { width, height } = result.charts[chart];
+      for (const triangle of triangles) {
+        expect(getSignedArea(triangle)).toBeGreaterThanOrEqual(-1e-9);
+        for (let c = 0; c < 6; c += 2) {
+          expect(triangle[c]).toBeGreaterThanOrEqual(-1e-6);
+          expect(triangle[c]).toBeLessThanOrEqual(width + 1e-6);
+          expect(triangle[c + 1]).toBeGreaterThanOrEqual(-1e-6);
+          expect(triangle[c + 1]).toBeLessThanOrEqual(height + 1e-6);
+        }
+      }
+      triangles.forEach((a, i) =>
+        triangles.slice(i + 1).forEach((b, j) => {
+          expect(trianglesOverlap(a, b), `${chart}: ${i}, ${i + j + 1}`).toBe(
+            false
+          );
+        })
+      );
+    });
+  });
+
+  it("keeps the faces of a box in a chart each", () => {
+    const result = unwrap(fromVertexData(BABYLON.CreateBoxVertexData({})));
+    expect(result.charts).toHaveLength(6);
+  });
+
+  it("splits a ramp overlapping itself in projection", () => {
+    const result = unwrap(createSpiralRamp());
+    expect(result.charts.length).toBeGreaterThan(1);
+    // The first three quarters of a turn still project in one piece
+    const triangleCharts = getTriangleCharts(result);
+    expect(new Set(triangleCharts.slice(0, 36)).size).toBe(1);
+  });
+
+  it("moves the triangles facing away from the chart plane out of it", () => {
+    const result = unwrap(createRidge());
+    const triangleCharts = getTriangleCharts(result);
+    expect(triangleCharts.slice(0, 4)).toEqual([0, 0, 0, 0]);
+    expect(triangleCharts[4]).toBe(triangleCharts[5]);
+    expect(triangleCharts[4]).not.toBe(0);
+  });
+});
@@ -0,0 +1,95 @@
+import * as BABYLON from "@babylonjs/core";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  bindMaterialAmbientOcclusion,
+  bindMaterialLightmap,
+} from "../materialLightmaps";
+import { getCasterCutout } from "../shadowCasters";
+import { createTestScene } from "./helpers";
+import type { TestScene } from "./helpers";
+
+describe("material lightmaps", () => {
+  let testScene: TestScene;
+
+  beforeEach(() => {
+    testScene = createTestScene();
+  });
+
+  afterEach(() => {
+    testScene.engine.dispose();
+  });
+
+  // PBR materials the glTF loader and users create besides `PBRMaterial`
+  const createSimplePBRMaterials = (scene: BABYLON.Scene) => [
+    new BABYLON.PBRMetallicRoughnessMaterial("metallicRoughness", scene),
+    new BABYLON.PBRSpecularGlossinessMaterial("specularGlossiness", scene),
+  ];
+
+  it("binds the lightmap of every PBR material", () => {
+    const { scene } = testScene;
+    const texture = new BABYLON.Texture(null, scene);
+    for (const material of createSimplePBRMaterials(scene)) {
+      const original = new BABYLON.Texture(null, scene);
+      material.lightmapTexture = original;
+      const binding = bindMaterialLightmap(material, undefined, false)!;
+      expect(binding, material.name).not.toBeNull();
+
+      binding.apply(texture);
+      expect(material.lightmapTexture === texture, material.name).toBe(true);
+      expect(material.useLightmapAsShadowmap, material.name).toBe(false);
+
+      binding.restore();
+      expect(material.lightmapTexture === original, material.name).toBe(true);
+      expect(material.useLightmapAsShadowmap, material.name).toBe(false);
+    }
+  });
+
+  it("binds the ambient occlusion of every PBR material", () => {
+    const { scene } = testScene;
+    const texture = new BABYLON.Texture(null, scene);
+    for (const material of createSimplePBRMaterials(scene)) {
+      const binding = bindMaterialAmbientOcclusion(material)!;
+      expect(binding, material.name).not.toBeNull();
+
+      binding.apply(texture);
+      expect(material.occlusionTexture === texture, material.name).toBe(true);
+      binding.restore();
+      expect(material.occlusionTexture, material.name).toBeNull();
+    }
+  });
+
+  it("reads the cutout of every PBR material", () => {
+    const { scene } = testScene;
+    const box = BABYLON.MeshBuilder.CreateBox("box", {}, scene);
+    for (const material of createSimplePBRMaterials(scene)) {
+      const texture = new BABYLON.Texture(null, scene);
+      if (material instanceof BABYLON.PBRMetallicRoughnessMaterial) {
+        material.baseTexture = texture;
+      } else {
+        material.diffuseTexture = texture;
+      }
+      material.transparencyMode = BABYLON.Material.MATERIAL_ALPHATEST;
+      material.alphaCutOff = 0.25;
+      box.material = material;
+
+      const cutout = getCasterCutout(box)!;
+      expect(cutout, material.name).not.toBeNull();
+      expect(cutout.texture === texture, material.name).toBe(true);
+      expect(cutout.cutoff, material.name).toBe(0.25);
+      expect(cutout.opacityFromRGB, material.name).toBe(false);
+    }
+
+    // PBR materials with an opacity texture read the cutout from it
+    const material = new BABYLON.PBRMaterial("pbr", scene);
+    material.albedoTexture = new BABYLON.Texture(null, scene);
+    material.opacityTexture = new BABYLON.Texture(null, scene);
+    material.opacityTexture.getAlphaFromRGB = true;
+    material.transparencyMode = BABYLON.Material.MATERIAL_ALPHATEST;
+    material.alphaCutOff = 0.6;
+    box.material = material;
+    const cutout = getCasterCutout(box)!;
+    expect(cutout.texture === material.opacityTexture).toBe(true);
+    expect(cutout.cutoff).toBe(0.6);
+    expect(cutout.opacityFromRGB).toBe(true);
+  });
+});
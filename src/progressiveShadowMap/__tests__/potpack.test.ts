@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { potpack } from "../potpack";
+import type { Box } from "../types";
+
+function overlaps(a: Box, b: Box): boolean {
+  return (
+    a.x! < b.x! + b.w &&
+    b.x! < a.x! + a.w &&
+    a.y! < b.y! + b.h &&
+    b.y! < a.y! + a.h
+  );
+}
+
+describe("potpack", () => {
+  const createBoxes = (): Box[] =>
+    [
+      [3, 1],
+      [5, 7],
+      [2, 2],
+      [8, 3],
+      [1, 9],
+      [4, 4],
+      [6, 2],
+    ].map(([w, h]) => ({ w, h }));
+
+  it("keeps the boxes in input order", () => {
+    const boxes = createBoxes();
+    const inputs = [...boxes];
+    potpack(boxes);
+
+    expect(boxes).toEqual(inputs);
+    expect(boxes.map(({ w, h }) => [w, h])).toEqual(
+      createBoxes().map(({ w, h }) => [w, h])
+    );
+  });
+
+  it("places every box inside the container without overlaps", () => {
+    const boxes = createBoxes();
+    const { w, h, fill } = potpack(boxes);
+
+    for (const [index, box] of boxes.entries()) {
+      expect(box.x).toBeGreaterThanOrEqual(0);
+      expect(box.y).toBeGreaterThanOrEqual(0);
+      expect(box.x! + box.w).toBeLessThanOrEqual(w);
+      expect(box.y! + box.h).toBeLessThanOrEqual(h);
+      for (const other of boxes.slice(index + 1)) {
+        expect(overlaps(box, other)).toBe(false);
+      }
+    }
+    expect(fill).toBeGreaterThan(0);
+    expect(fill).toBeLessThanOrEqual(1);
+  });
+
+  it("packs nothing into an empty container", () => {
+    expect(potpack([])).toEqual({ w: 0, h: 0, fill: 0 });
+  });
+});
@@ -0,0 +1,341 @@
+import * as BABYLON from "@babylonjs/core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LIGHTMAP_SCALE_OFFSET_KIND } from "../lightmapInstances";
+import { ProgressiveShadowMap } from "../progressiveShadowMap";
+import type { UV2GenerationMode } from "../types";
+import {
+  createTestMeshes,
+  createTestScene,
+  getData,
+  getGeometryState,
+  getSignedArea,
+  runBakeJob,
+  trianglesOverlap,
+} from "./helpers";
+import type { TestScene } from "./helpers";
+
+// Triangles of a mesh in its lightmap UVs, as `[u0, v0, u1, v1, u2, v2]`
+function getUV2Triangles(mesh: BABYLON.AbstractMesh): number[][] {
+  const uvs = getData(mesh, BABYLON.VertexBuffer.UV2Kind)!;
+  const indices = Array.from(mesh.getIndices()!);
+  const triangles: number[][] = [];
+  for (let i = 0; i < indices.length; i += 3) {
+    triangles.push(
+      indices
+        .slice(i, i + 3)
+        .flatMap((vertex) => [uvs[vertex * 2], uvs[vertex * 2 + 1]])
+    );
+  }
+  return triangles;
+}
+
+// Bounds of the lightmap UVs of a mesh, as `[minU, minV, maxU, maxV]`
+function getUV2Bounds(mesh: BABYLON.AbstractMesh): number[] {
+  const uvs = getData(mesh, BABYLON.VertexBuffer.UV2Kind)!;
+  const us = uvs.filter((_, i) => i % 2 === 0);
+  const vs = uvs.filter((_, i) => i % 2 === 1);
+  return [Math.min(...us), Math.min(...vs), Math.max(...us), Math.max(...vs)];
+}
+
+describe("ProgressiveShadowMap", () => {
+  let testScene: TestScene;
+
+  beforeEach(() => {
+    testScene = createTestScene();
+    // Render targets never become ready without rendering
+    vi.spyOn(
+      BABYLON.RenderTargetTexture.prototype,
+      "isReadyForRendering"
+    ).mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    testScene.engine.dispose();
+  });
+
+  it.each<UV2GenerationMode>(["reuseUV1", "unwrap"])(
+    "restores the scene after a %s bake",
+    async (uvGenerationMode) => {
+      const { scene, light } = testScene;
+      const meshes = createTestMeshes(scene);
+      const generator = light.getShadowGenerator() as BABYLON.ShadowGenerator;
+      meshes.forEach((mesh) => generator.addShadowCaster(mesh));
+      const geometries = meshes.map(getGeometryState);
+      const direction = light.direction.clone();
+
+      const shadowMap = new ProgressiveShadowMap(scene, light, {
+        resolution: 64,
+        blendWindow: 4,
+        uvGenerationMode,
+        applyToMaterials: true,
+      });
+      const layout = shadowMap.addMeshes(meshes);
+      expect(layout.meshPages).toEqual([0, 0]);
+      for (const mesh of meshes) {
+        expect(mesh.isVerticesDataPresent(BABYLON.VertexBuffer.UV2Kind)).toBe(
+          true
+        );
+      }
+
+      const job = shadowMap.render();
+      await runBakeJob(scene, job);
+      expect(job.state).toBe("completed");
+      expect(job.progress.iteration).toBe(job.progress.totalIterations);
+      expect(light.direction.asArray()).toEqual(direction.asArray());
+      const material = meshes[0].material as BABYLON.StandardMaterial;
+      expect(material.lightmapTexture?.name).toBe(
+        shadowMap.getShadowMap().name
+      );
+
+      shadowMap.dispose();
+      expect(meshes.map(getGeometryState)).toEqual(geometries);
+      expect(material.lightmapTexture).toBeNull();
+      expect(light.direction.asArray()).toEqual(direction.asArray());
+      const casters = light.getShadowGenerator()!.getShadowMap()!.renderList!;
+      expect(casters.map(({ name }) => name)).toEqual(["ground", "box"]);
+    }
+  );
+
+  it("keeps the generated UVs when asked to", () => {
+    const { scene, light } = testScene;
+    const meshes = createTestMeshes(scene);
+    const shadowMap = new ProgressiveShadowMap(scene, light, {
+      resolution: 64,
+      keepGeneratedUVs: true,
+    });
+    shadowMap.addMeshes(meshes);
+    shadowMap.dispose();
+
+    for (const mesh of meshes) {
+      expect(mesh.isVerticesDataPresent(BABYLON.VertexBuffer.UV2Kind)).toBe(
+        true
+      );
+    }
+  });
+
+  it("packs the unwrapped charts of every mesh without overlaps", () => {
+    const { scene, light } = testScene;
+    const meshes = [
+      BABYLON.MeshBuilder.CreateSphere("sphere", { segments: 8 }, scene),
+      BABYLON.MeshBuilder.CreateTorus("torus", { tessellation: 16 }, scene),
+      ...createTestMeshes(scene),
+    ];
+    const shadowMap = new ProgressiveShadowMap(scene, light, {
+      resolution: 256,
+      uvGenerationMode: "unwrap",
+    });
+    expect(shadowMap.addMeshes(meshes).meshPages).toEqual([0, 0, 0, 0]);
+
+    // Triangles of the same chart only touch, like those of different charts
+    const triangles = meshes
+      .flatMap((mesh) => getUV2Triangles(mesh))
+      .filter((triangle) => Math.abs(getSignedArea(triangle)) > 1e-12);
+    for (const uv of triangles.flat()) {
+      expect(uv).toBeGreaterThanOrEqual(0);
+      expect(uv).toBeLessThanOrEqual(1);
+    }
+    let overlaps = 0;
+    triangles.forEach((a, i) => {
+      for (let j = i + 1; j < triangles.length; j++) {
+        if (trianglesOverlap(a, triangles[j], 1e-9)) {
+          overlaps++;
+        }
+      }
+    });
+    expect(overlaps).toBe(0);
+    shadowMap.dispose();
+  });
+
+  it("places every mesh in the atlas rectangle of its own size", () => {
+    const { scene, light } = testScene;
+    const sizes = [1, 3, 0.5, 2];
+    const meshes = sizes.map((size, index) =>
+      BABYLON.MeshBuilder.CreatePlane(`plane${index}`, { size }, scene)
+    );
+    const shadowMap = new ProgressiveShadowMap(scene, light, {
+      resolution: 256,
+      texelsPerUnit: 32,
+      padding: 2,
+    });
+    expect(shadowMap.addMeshes(meshes).meshPages).toEqual([0, 0, 0, 0]);
+
+    const bounds = meshes.map(getUV2Bounds);
+    bounds.forEach(([minU, minV, maxU, maxV], index) => {
+      const extent = (sizes[index] * 32) / 256;
+      expect(maxU - minU, meshes[index].name).toBeCloseTo(extent, 5);
+      expect(maxV - minV, meshes[index].name).toBeCloseTo(extent, 5);
+      expect(minU).toBeGreaterThanOrEqual(0);
+      expect(minV).toBeGreaterThanOrEqual(0);
+      expect(maxU).toBeLessThanOrEqual(1);
+      expect(maxV).toBeLessThanOrEqual(1);
+    });
+    bounds.forEach((a, i) =>
+      bounds.slice(i + 1).forEach((b, j) => {
+        const disjoint =
+          a[2] <= b[0] || b[2] <= a[0] || a[3] <= b[1] || b[3] <= a[1];
+        expect(disjoint, `${i}, ${i + j + 1}`).toBe(true);
+      })
+    );
+    shadowMap.dispose();
+  });
+
+  it("skips the meshes without usable UVs", () => {
+    const { scene, light } = testScene;
+    const [ground, box] = createTestMeshes(scene);
+    box.removeVerticesData(BABYLON.VertexBuffer.UVKind);
+    const flat = BABYLON.MeshBuilder.CreatePlane("flat", {}, scene);
+    const uvs = flat.getVerticesData(BABYLON.VertexBuffer.UVKind)!;
+    flat.setVerticesData(
+      BABYLON.VertexBuffer.UVKind,
+      uvs.map((uv, i) => (i % 2 === 0 ? 0.5 : uv))
+    );
+    const geometries = [box, flat].map(getGeometryState);
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const shadowMap = new ProgressiveShadowMap(scene, light, {
+      resolution: 64,
+    });
+    expect(shadowMap.addMeshes([ground, box, flat]).meshPages).toEqual([
+      0, -1, -1,
+    ]);
+    expect(warn.mock.calls.map(([message]) => message)).toEqual([
+      "Mesh box has no valid UV data.",
+      "Mesh flat has no valid UV data.",
+    ]);
+    expect(shadowMap.getMeshPage(ground)).toBe(0);
+    expect(shadowMap.getMeshPage(box)).toBeUndefined();
+    expect(shadowMap.getMeshPage(flat)).toBeUndefined();
+    expect([box, flat].map(getGeometryState)).toEqual(geometries);
+    for (const uv of getData(ground, BABYLON.VertexBuffer.UV2Kind)!) {
+      expect(uv).toBeGreaterThanOrEqual(0);
+      expect(uv).toBeLessThanOrEqual(1);
+    }
+    shadowMap.dispose();
+  });
+
+  it("bakes the meshes it is given whatever their names", () => {
+    const { scene, light } = testScene;
+    const meshes = ["uv_box", "debugPlane"].map((name) =>
+      BABYLON.MeshBuilder.CreateBox(name, { size: 1 }, scene)
+    );
+    const shadowMap = new ProgressiveShadowMap(scene, light, {
+      resolution: 64,
+    });
+
+    expect(shadowMap.addMeshes(meshes).meshPages).toEqual([0, 0]);
+    shadowMap.dispose();
+  });
+
+  it("renders only the dirty meshes when they move", async () => {
+    const { scene, light } = testScene;
+    const [ground, box] = createTestMeshes(scene);
+    const farBox = box.clone("farBox");
+    farBox.position.x = 50;
+    const shadowMap = new ProgressiveShadowMap(scene, light, {
+      resolution: 64,
+      blendWindow: 4,
+    });
+    shadowMap.addMeshes([ground, box, farBox]);
+    await runBakeJob(scene, shadowMap.render());
+
+    const rendered = new Set<string>();
+    const cleared: boolean[] = [];
+    const render = BABYLON.RenderTargetTexture.prototype.render;
+    vi.spyOn(
+      BABYLON.RenderTargetTexture.prototype,
+      "render"
+    ).mockImplementation(function (this: BABYLON.RenderTargetTexture, ...args) {
+      // Leaves out the shadow maps of the generators
+      if (this.name.includes("pingPongRTT")) {
+        const list = this.renderList!;
+        const meshes = this.getCustomRenderList?.(0, list, list.length) ?? list;
+        meshes.forEach(({ name }) => rendered.add(name));
+        cleared.push(!this.skipInitialClear);
+      }
+      return render.apply(this, args);
+    });
+    box.position.y = 1;
+    await runBakeJob(scene, shadowMap.updateMeshes([box]));
+
+    // The ground catches the shadow of the box, the far box is left alone
+    expect([...rendered].sort()).toEqual(["box", "ground"]);
+    expect(cleared).not.toContain(true);
+    const rtt = shadowMap.getShadowMap() as BABYLON.RenderTargetTexture;
+    expect(rtt.getCustomRenderList).toBeNull();
+    expect(rtt.skipInitialClear).toBe(false);
+    shadowMap.dispose();
+  });
+
+  it("restores the geometries of removed meshes", () => {
+    const { scene, light } = testScene;
+    const [ground, box] = createTestMeshes(scene);
+    const instance = box.createInstance("instance");
+    instance.position.x = 2;
+    const geometry = getGeometryState(box);
+    const shadowMap = new ProgressiveShadowMap(scene, light, {
+      resolution: 64,
+    });
+    shadowMap.addMeshes([ground, box, instance]);
+    expect(box.isVerticesDataPresent(LIGHTMAP_SCALE_OFFSET_KIND)).toBe(true);
+
+    // The box still renders its lightmap after its instance is removed
+    shadowMap.removeMeshes([instance]);
+    expect(box.isVerticesDataPresent(LIGHTMAP_SCALE_OFFSET_KIND)).toBe(true);
+    expect(instance.instancedBuffers).toHaveProperty(
+      LIGHTMAP_SCALE_OFFSET_KIND
+    );
+
+    shadowMap.removeMeshes([box]);
+    expect(box.isVerticesDataPresent(LIGHTMAP_SCALE_OFFSET_KIND)).toBe(false);
+    expect(box.instancedBuffers).not.toHaveProperty(LIGHTMAP_SCALE_OFFSET_KIND);
+    expect(instance.instancedBuffers).not.toHaveProperty(
+      LIGHTMAP_SCALE_OFFSET_KIND
+    );
+    expect(getGeometryState(box)).toEqual(geometry);
+    expect(ground.isVerticesDataPresent(BABYLON.VertexBuffer.UV2Kind)).toBe(
+      true
+    );
+    shadowMap.dispose();
+  });
+
+  it("gives thin instances their own atlas rectangles", async () => {
+    const { scene, light } = testScene;
+    const box = BABYLON.MeshBuilder.CreateBox("box", { size: 1 }, scene);
+    box.material = new BABYLON.StandardMaterial("boxMaterial", scene);
+    box.thinInstanceAdd([
+      BABYLON.Matrix.Translation(-2, 0, 0),
+      BABYLON.Matrix.Scaling(2, 2, 2),
+      BABYLON.Matrix.Translation(3, 0, 0),
+    ]);
+    const geometry = getGeometryState(box);
+
+    const shadowMap = new ProgressiveShadowMap(scene, light, {
+      resolution: 128,
+    });
+    shadowMap.addMeshes([box]);
+    const manifest = await shadowMap.createBakeManifest({
+      pageImageUrl: () => "page.png",
+    });
+
+    const scaleOffsets = manifest.meshes[0].lightmapScaleOffsets!;
+    expect(scaleOffsets).toHaveLength(12);
+    const rectangles = [0, 1, 2].map((instance) =>
+      scaleOffsets.slice(instance * 4, instance * 4 + 4)
+    );
+    // The larger instance gets a larger rectangle, every one its own
+    expect(rectangles[1][0]).toBeCloseTo(2 * rectangles[0][0]);
+    expect(new Set(rectangles.map(String)).size).toBe(3);
+    for (const [scaleU, scaleV, offsetU, offsetV] of rectangles) {
+      expect(offsetU).toBeGreaterThanOrEqual(0);
+      expect(offsetV).toBeGreaterThanOrEqual(0);
+      expect(offsetU + scaleU).toBeLessThanOrEqual(1);
+      expect(offsetV + scaleV).toBeLessThanOrEqual(1);
+    }
+
+    await runBakeJob(scene, shadowMap.render());
+    shadowMap.dispose();
+    expect(box.isVerticesDataPresent(LIGHTMAP_SCALE_OFFSET_KIND)).toBe(false);
+    expect(getGeometryState(box)).toEqual(geometry);
+  });
+});
@@ -0,0 +1,291 @@
+import * as BABYLON from "@babylonjs/core";
+import { defaultPixelShaderWGSL } from "@babylonjs/core/ShadersWGSL/default.fragment";
+import { defaultVertexShaderWGSL } from "@babylonjs/core/ShadersWGSL/default.vertex";
+import { pbrPixelShaderWGSL } from "@babylonjs/core/ShadersWGSL/pbr.fragment";
+import { pbrVertexShaderWGSL } from "@babylonjs/core/ShadersWGSL/pbr.vertex";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ProgressiveShadowMapMaterialPlugin } from "../progressiveShadowMapMaterialPlugin";
+import { getBlurFragmentShader } from "../shadowMapDenoiser";
+import { getDilateFragmentShader } from "../shadowMapDilator";
+import {
+  getCopyFragmentShader,
+  getEffectShaderLanguage,
+} from "../textureUtils";
+import {
+  createTestScene,
+  getDefineCombinations,
+  getGLSLTokens,
+  getWGSLDeclarations,
+  getWGSLMembers,
+  preprocessShaderCode,
+} from "./helpers";
+import type { TestScene } from "./helpers";
+
+const WGSL = BABYLON.ShaderLanguage.WGSL;
+
+const PLUGIN_DEFINES = [
+  "FIRST_ITERATION",
+  "LIGHT_CHANNELS",
+  "AMBIENT_OCCLUSION",
+  "BENT_NORMALS",
+  "IRRADIANCE_BOUNCE",
+  "LIGHTMAP_SCALE_OFFSET",
+  "SHADOW_TRANSMISSION",
+];
+// Defines of the material the injected code depends on
+const MATERIAL_DEFINES = ["NORMAL", "UV2"];
+
+// Material shaders and the includes they pulled into the shader store
+function getShaderSource(shader: { shader: string }): string {
+  return [
+    shader.shader,
+    ...Object.values(BABYLON.ShaderStore.IncludesShadersStoreWGSL),
+  ].join("\n");
+}
+
+function countOf(names: string[], name: string): number {
+  return names.filter((other) => other === name).length;
+}
+
+describe("ProgressiveShadowMapMaterialPlugin WGSL code", () => {
+  let testScene: TestScene;
+  let plugin: ProgressiveShadowMapMaterialPlugin;
+
+  beforeEach(() => {
+    testScene = createTestScene();
+    plugin = new ProgressiveShadowMapMaterialPlugin(
+      new BABYLON.StandardMaterial("material", testScene.scene)
+    );
+  });
+
+  afterEach(() => {
+    testScene.engine.dispose();
+  });
+
+  it("injects at the custom code points of the material shaders", () => {
+    const vertex = plugin.getCustomCode("vertex", WGSL);
+    const fragment = plugin.getCustomCode("fragment", WGSL);
+    const injected = (code: Record<string, string>) =>
+      Object.keys(code).filter((pointName) => code[pointName]);
+
+    expect(injected(vertex)).toEqual([
+      "CUSTOM_VERTEX_DEFINITIONS",
+      "CUSTOM_VERTEX_MAIN_END",
+    ]);
+    expect(injected(fragment)).toEqual([
+      "CUSTOM_FRAGMENT_DEFINITIONS",
+      "CUSTOM_FRAGMENT_MAIN_END",
+    ]);
+    for (const shader of [defaultVertexShaderWGSL, pbrVertexShaderWGSL]) {
+      injected(vertex).forEach((pointName) =>
+        expect(shader.shader).toContain(`#define ${pointName}`)
+      );
+    }
+    for (const shader of [defaultPixelShaderWGSL, pbrPixelShaderWGSL]) {
+      injected(fragment).forEach((pointName) =>
+        expect(shader.shader).toContain(`#define ${pointName}`)
+      );
+    }
+  });
+
+  it("reads variables the material shaders declare", () => {
+    const vertex = plugin.getCustomCode("vertex", WGSL);
+    const vertexCode = vertex.CUSTOM_VERTEX_MAIN_END;
+    for (const shader of [defaultVertexShaderWGSL, pbrVertexShaderWGSL]) {
+      const source = getShaderSource(shader);
+      for (const name of ["worldPos", "finalWorld", "normalUpdated"]) {
+        expect(vertexCode).toMatch(new RegExp(`\\b${name}\\b`));
+        expect(source).toMatch(new RegExp(`\\bvar ${name}\\b`));
+      }
+    }
+
+    const standardCode = plugin.getCustomCode("fragment", WGSL);
+    expect(standardCode.CUSTOM_FRAGMENT_MAIN_END).toContain(
+      "baseColor.rgb * diffuseColor"
+    );
+    expect(defaultPixelShaderWGSL.shader).toMatch(/\bvar baseColor\b/);
+    expect(defaultPixelShaderWGSL.shader).toMatch(/\bvar diffuseColor\b/);
+
+    const pbrPlugin = new ProgressiveShadowMapMaterialPlugin(
+      new BABYLON.PBRMaterial("pbrMaterial", testScene.scene)
+    );
+    const pbrCode = pbrPlugin.getCustomCode("fragment", WGSL);
+    expect(pbrCode.CUSTOM_FRAGMENT_MAIN_END).toContain("surfaceAlbedo");
+    expect(getShaderSource(pbrPixelShaderWGSL)).toMatch(
+      /\bvar surfaceAlbedo\b/
+    );
+  });
+
+  it("has no GLSL in its WGSL code", () => {
+    const code = {
+      ...plugin.getCustomCode("vertex", WGSL),
+      ...plugin.getCustomCode("fragment", WGSL),
+    };
+    for (const [pointName, source] of Object.entries(code)) {
+      expect(getGLSLTokens(source), pointName).toEqual([]);
+    }
+  });
+
+  it("declares the uniform buffer members and samplers in WGSL", () => {
+    const uniforms = plugin.getUniforms(WGSL);
+    const names = uniforms.ubo.map(({ name }) => name);
+    // WGSL reads the members from the uniform buffer Babylon declares
+    expect(uniforms).not.toHaveProperty("fragment");
+    expect(uniforms).not.toHaveProperty("vertex");
+    expect(new Set(names).size).toBe(names.length);
+
+    const glslUniforms = plugin.getUniforms(BABYLON.ShaderLanguage.GLSL);
+    for (const { name, type } of glslUniforms.ubo) {
+      expect(glslUniforms.fragment).toContain(`uniform ${type} ${name};`);
+    }
+
+    const samplers: string[] = [];
+    plugin.getSamplers(samplers);
+    const definitions = getWGSLDeclarations(
+      plugin.getCustomCode("fragment", WGSL).CUSTOM_FRAGMENT_DEFINITIONS,
+      "var"
+    );
+    for (const sampler of samplers) {
+      expect(definitions).toContain(sampler);
+      expect(definitions).toContain(`${sampler}Sampler`);
+    }
+  });
+
+  it("declares what each define combination reads", () => {
+    const vertex = plugin.getCustomCode("vertex", WGSL);
+    const fragment = plugin.getCustomCode("fragment", WGSL);
+    const ubo = plugin.getUniforms(WGSL).ubo.map(({ name }) => name);
+    const samplers: string[] = [];
+    plugin.getSamplers(samplers);
+
+    for (const defines of getDefineCombinations([
+      ...PLUGIN_DEFINES,
+      ...MATERIAL_DEFINES,
+    ])) {
+      const label = [...defines].join(" ") || "no defines";
+      const preprocess = (code: string) => preprocessShaderCode(code, defines);
+      const vertexDefinitions = preprocess(vertex.CUSTOM_VERTEX_DEFINITIONS);
+      const vertexMain = preprocess(vertex.CUSTOM_VERTEX_MAIN_END);
+      const definitions = preprocess(fragment.CUSTOM_FRAGMENT_DEFINITIONS);
+      const main = preprocess(fragment.CUSTOM_FRAGMENT_MAIN_END);
+
+      // The material declares the UV attribute of the channel it uses
+      const attributes = [
+        ...getWGSLDeclarations(vertexDefinitions, "attribute"),
+        ...(defines.has("UV2") ? ["uv2"] : []),
+      ];
+      const vertexVaryings = getWGSLDeclarations(vertexDefinitions, "varying");
+      for (const name of getWGSLMembers(vertexMain, "vertexInputs")) {
+        expect(countOf(attributes, name), `${label}: ${name}`).toBe(1);
+      }
+      for (const name of getWGSLMembers(vertexMain, "vertexOutputs")) {
+        if (name !== "position") {
+          expect(countOf(vertexVaryings, name), `${label}: ${name}`).toBe(1);
+        }
+      }
+
+      const varyings = getWGSLDeclarations(definitions, "varying");
+      for (const name of getWGSLMembers(main, "fragmentInputs")) {
+        expect(countOf(varyings, name), `${label}: ${name}`).toBe(1);
+        expect(vertexVaryings, `${label}: ${name}`).toContain(name);
+      }
+      for (const name of getWGSLMembers(definitions + main, "uniforms")) {
+        expect(ubo, `${label}: ${name}`).toContain(name);
+      }
+
+      const variables = getWGSLDeclarations(definitions, "var");
+      for (const sampler of samplers) {
+        if (new RegExp(`\\b${sampler}\\b`).test(main)) {
+          expect(countOf(variables, sampler), `${label}: ${sampler}`).toBe(1);
+          expect(
+            countOf(variables, `${sampler}Sampler`),
+            `${label}: ${sampler}`
+          ).toBe(1);
+        }
+      }
+
+      const locals = Array.from(main.matchAll(/\blet\s+(\w+)/g), (m) => m[1]);
+      expect(new Set(locals).size, label).toBe(locals.length);
+    }
+  });
+});
+
+// Fragment shaders of the effect wrappers, with the defines, uniforms and
+// samplers they are created with
+const PASSES = [
+  {
+    name: "copy",
+    getShader: getCopyFragmentShader,
+    defines: [],
+    uniforms: [],
+    samplers: ["textureSampler"],
+  },
+  {
+    name: "blur",
+    getShader: getBlurFragmentShader,
+    defines: ["EDGE_AWARE"],
+    uniforms: [
+      "direction",
+      "sigma",
+      "positionSigma",
+      "normalPower",
+      "strength",
+    ],
+    samplers: [
+      "textureSampler",
+      "unfilteredSampler",
+      "chartRects",
+      "positions",
+      "normals",
+    ],
+  },
+  {
+    name: "dilate",
+    getShader: getDilateFragmentShader,
+    defines: [],
+    uniforms: ["texelSize"],
+    samplers: ["textureSampler", "coverage"],
+  },
+];
+
+describe("effect wrapper WGSL code", () => {
+  it("picks WGSL on WebGPU unless GLSL is forced", () => {
+    const { engine } = createTestScene();
+    expect(getEffectShaderLanguage(engine)).toBe(BABYLON.ShaderLanguage.GLSL);
+
+    vi.spyOn(engine, "isWebGPU", "get").mockReturnValue(true);
+    expect(getEffectShaderLanguage(engine)).toBe(WGSL);
+    BABYLON.EffectWrapper.ForceGLSL = true;
+    try {
+      expect(getEffectShaderLanguage(engine)).toBe(BABYLON.ShaderLanguage.GLSL);
+    } finally {
+      BABYLON.EffectWrapper.ForceGLSL = false;
+      engine.dispose();
+    }
+  });
+
+  it.each(PASSES)(
+    "declares what the $name pass reads",
+    ({ getShader, defines, uniforms, samplers }) => {
+      expect(getShader(WGSL)).not.toBe(getShader(BABYLON.ShaderLanguage.GLSL));
+
+      for (const defined of getDefineCombinations(defines)) {
+        const label = [...defined].join(" ") || "no defines";
+        const code = preprocessShaderCode(getShader(WGSL), defined);
+
+        expect(getGLSLTokens(code), label).toEqual([]);
+        expect(getWGSLDeclarations(code, "varying"), label).toEqual(["vUV"]);
+        expect(getWGSLMembers(code, "input"), label).toEqual(["vUV"]);
+        expect(code, label).toMatch(/\bfragmentOutputs\.color\s*=/);
+
+        expect(getWGSLDeclarations(code, "uniform"), label).toEqual(uniforms);
+        for (const name of getWGSLMembers(code, "uniforms")) {
+          expect(uniforms, `${label}: ${name}`).toContain(name);
+        }
+        expect(getWGSLDeclarations(code, "var").sort(), label).toEqual(
+          samplers.flatMap((sampler) => [sampler, `${sampler}Sampler`]).sort()
+        );
+      }
+    }
+  );
+});
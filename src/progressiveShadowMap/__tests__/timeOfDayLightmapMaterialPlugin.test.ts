@@ -0,0 +1,158 @@
+import * as BABYLON from "@babylonjs/core";
+import { defaultPixelShaderWGSL } from "@babylonjs/core/ShadersWGSL/default.fragment";
+import { pbrPixelShaderWGSL } from "@babylonjs/core/ShadersWGSL/pbr.fragment";
+import { pbrBlockLightmapInitWGSL } from "@babylonjs/core/ShadersWGSL/ShadersInclude/pbrBlockLightmapInit";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { TimeOfDayLightmapMaterialPlugin } from "../timeOfDayLightmapMaterialPlugin";
+import { TimeOfDayLightmaps } from "../timeOfDayLightmaps";
+import {
+  createTestScene,
+  getDefineCombinations,
+  getGLSLTokens,
+  getWGSLDeclarations,
+  getWGSLMembers,
+  preprocessShaderCode,
+} from "./helpers";
+import type { TestScene } from "./helpers";
+
+const WGSL = BABYLON.ShaderLanguage.WGSL;
+
+// Replaces the matches of a regular expression point like the plugin manager
+function injectAtRegExp(source: string, pointName: string, code: string) {
+  return source.replace(new RegExp(pointName.substring(1), "g"), code);
+}
+
+describe("TimeOfDayLightmapMaterialPlugin", () => {
+  let testScene: TestScene;
+
+  beforeEach(() => {
+    testScene = createTestScene();
+  });
+
+  afterEach(() => {
+    testScene.engine.dispose();
+  });
+
+  it("lets the materials of time of day lightmaps be cloned", () => {
+    const { scene } = testScene;
+    const material = new BABYLON.StandardMaterial("material", scene);
+    const keyframes = [6, 18].map((time) => ({
+      time,
+      pages: [new BABYLON.Texture(null, scene)],
+    }));
+    const timeOfDay = new TimeOfDayLightmaps(keyframes, { time: 12 });
+    timeOfDay.addMaterial(material);
+
+    const clone = material.clone("clone");
+    const plugin = clone.timeOfDayLightmapPlugin!;
+    expect(plugin).toBeDefined();
+    expect(plugin === material.timeOfDayLightmapPlugin).toBe(false);
+    expect(plugin.enabled).toBe(true);
+    // The keyframe lightmaps belong to `TimeOfDayLightmaps`
+    expect(plugin.nextLightmap).toBeNull();
+
+    timeOfDay.addMaterial(clone);
+    expect(clone.timeOfDayLightmapPlugin === plugin).toBe(true);
+    expect(plugin.nextLightmap === keyframes[1].pages[0]).toBe(true);
+    expect(plugin.blend).toBe(0.5);
+
+    timeOfDay.dispose();
+    expect(material.clone("restored").timeOfDayLightmapPlugin?.enabled).toBe(
+      false
+    );
+  });
+});
+
+describe("TimeOfDayLightmapMaterialPlugin WGSL code", () => {
+  let testScene: TestScene;
+  let plugin: TimeOfDayLightmapMaterialPlugin;
+
+  beforeEach(() => {
+    testScene = createTestScene();
+    plugin = new TimeOfDayLightmapMaterialPlugin(
+      new BABYLON.StandardMaterial("material", testScene.scene)
+    );
+  });
+
+  afterEach(() => {
+    testScene.engine.dispose();
+  });
+
+  it("injects at the custom code points of the fragment shaders", () => {
+    const fragment = plugin.getCustomCode("fragment", WGSL)!;
+    const [definitions, lightmapSample] = Object.keys(fragment);
+
+    expect(plugin.getCustomCode("vertex", WGSL)).toBeNull();
+    expect(definitions).toBe("CUSTOM_FRAGMENT_DEFINITIONS");
+    expect(defaultPixelShaderWGSL.shader).toContain(`#define ${definitions}`);
+    expect(pbrPixelShaderWGSL.shader).toContain(`#define ${definitions}`);
+
+    // Standard materials sample the lightmap in their shader, PBR materials
+    // in an include
+    for (const shader of [defaultPixelShaderWGSL, pbrBlockLightmapInitWGSL]) {
+      const injected = injectAtRegExp(
+        shader.shader,
+        lightmapSample,
+        fragment[lightmapSample]
+      );
+      expect(injected).not.toContain("textureSample(lightmapSampler");
+      expect(
+        injected.match(
+          /timeOfDayLightmap\(fragmentInputs\.vLightmapUV\+uvOffset\)/g
+        )
+      ).toHaveLength(1);
+    }
+
+    for (const [pointName, source] of Object.entries(fragment)) {
+      expect(getGLSLTokens(source), pointName).toEqual([]);
+    }
+  });
+
+  it("declares the uniform buffer members and samplers in WGSL", () => {
+    const uniforms = plugin.getUniforms(WGSL);
+    // WGSL reads the members from the uniform buffer Babylon declares
+    expect(uniforms).toEqual({
+      ubo: [{ name: "timeOfDayBlend", size: 1, type: "float" }],
+    });
+    expect(plugin.getUniforms(BABYLON.ShaderLanguage.GLSL).fragment).toContain(
+      "uniform float timeOfDayBlend;"
+    );
+
+    const samplers: string[] = [];
+    plugin.getSamplers(samplers);
+    expect(samplers).toEqual(["timeOfDayNextLightmap"]);
+  });
+
+  it("declares what each define combination reads", () => {
+    const fragment = plugin.getCustomCode("fragment", WGSL)!;
+    const ubo = plugin.getUniforms(WGSL).ubo.map(({ name }) => name);
+
+    for (const defines of getDefineCombinations([
+      "TIME_OF_DAY_BLEND",
+      "LIGHTMAP",
+    ])) {
+      const label = [...defines].join(" ") || "no defines";
+      const definitions = preprocessShaderCode(
+        fragment.CUSTOM_FRAGMENT_DEFINITIONS,
+        defines
+      );
+      const variables = getWGSLDeclarations(definitions, "var");
+
+      for (const name of getWGSLMembers(definitions, "uniforms")) {
+        expect(ubo, `${label}: ${name}`).toContain(name);
+      }
+      expect(variables, label).toEqual(
+        defines.has("TIME_OF_DAY_BLEND")
+          ? ["timeOfDayNextLightmapSampler", "timeOfDayNextLightmap"]
+          : []
+      );
+      // The material declares the lightmap and samples it only with LIGHTMAP
+      expect(definitions.includes("lightmapSampler"), label).toBe(
+        defines.has("LIGHTMAP")
+      );
+      expect(definitions.includes("fn timeOfDayLightmap("), label).toBe(
+        defines.has("LIGHTMAP")
+      );
+    }
+  });
+});
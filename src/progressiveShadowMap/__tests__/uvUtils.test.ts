@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { computeUVBox, createUV1Chart } from "../uvUtils";
+
+// Two triangles covering a 2 x 3 world rectangle, mapped to the unit square
+const QUAD_POSITIONS = [0, 0, 0, 2, 0, 0, 2, 3, 0, 0, 3, 0];
+const QUAD_UVS = [0, 0, 1, 0, 1, 1, 0, 1];
+const QUAD_INDICES = [0, 1, 2, 0, 2, 3];
+
+describe("computeUVBox", () => {
+  it("has no extent for empty data", () => {
+    expect(computeUVBox([])).toMatchObject({ w: 0, h: 0 });
+  });
+
+  it("bounds the coordinates", () => {
+    expect(computeUVBox([0.25, 0.5, -1, 2, 0.5, 0.75])).toMatchObject({
+      w: 1.5,
+      h: 1.5,
+      minU: -1,
+      maxU: 0.5,
+      minV: 0.5,
+      maxV: 2,
+    });
+  });
+
+  it("has no extent for coincident coordinates", () => {
+    expect(computeUVBox([0.5, 0.5, 0.5, 0.5])).toMatchObject({ w: 0, h: 0 });
+  });
+});
+
+describe("createUV1Chart", () => {
+  it("scales the UVs to the surface area of the mesh", () => {
+    const chart = createUV1Chart(QUAD_UVS, QUAD_POSITIONS, QUAD_INDICES)!;
+
+    expect(chart.vertexStart).toBe(0);
+    expect(chart.vertexCount).toBe(4);
+    expect(chart.width * chart.height).toBeCloseTo(6);
+    expect(chart.coords[4]).toBeCloseTo(chart.width);
+    expect(chart.coords[5]).toBeCloseTo(chart.height);
+  });
+
+  it("rejects empty UVs", () => {
+    expect(createUV1Chart([], [], [])).toBeNull();
+  });
+
+  it("rejects UVs without extent along an axis", () => {
+    const line = [0, 0.5, 1, 0.5, 1, 0.5, 0, 0.5];
+    expect(createUV1Chart(line, QUAD_POSITIONS, QUAD_INDICES)).toBeNull();
+  });
+
+  it("rejects non-finite UVs", () => {
+    for (const value of [NaN, Infinity, -Infinity]) {
+      const uvs = [...QUAD_UVS];
+      uvs[3] = value;
+      expect(createUV1Chart(uvs, QUAD_POSITIONS, QUAD_INDICES)).toBeNull();
+    }
+  });
+
+  it("rejects UVs that don't match the positions", () => {
+    expect(
+      createUV1Chart(QUAD_UVS.slice(0, 6), QUAD_POSITIONS, QUAD_INDICES)
+    ).toBeNull();
+  });
+});
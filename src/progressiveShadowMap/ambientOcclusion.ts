@@ -0,0 +1,315 @@
+import * as BABYLON from "@babylonjs/core";
+import {
+  getLightmapRenderingMesh,
+  isLightmapMeshReady,
+} from "./lightmapInstances";
+import {
+  addCutoutShaderOptions,
+  bindCasterCutout,
+  getCasterCutout,
+  getCutoutShaderCode,
+} from "./shadowCasters";
+import type { CasterCutout, CutoutShaderCode } from "./shadowCasters";
+import { getWorldBounds } from "./shadowVolumes";
+import type { AmbientOcclusionOptions, Bounds } from "./types";
+
+export const DEFAULT_AMBIENT_OCCLUSION_OPTIONS: Required<AmbientOcclusionOptions> =
+  {
+    samples: null,
+    radius: null,
+    bias: null,
+    bentNormals: false,
+    depthResolution: 1024,
+  };
+
+// Distance of every fragment from the depth map's near plane, in world units
+const depthVertexShader = (cutout: CutoutShaderCode) => `
+  precision highp float;
+  attribute vec3 position;
+  #include<instancesDeclaration>
+  uniform mat4 occlusionViewProjection;
+  uniform vec3 occlusionEye;
+  uniform vec3 occlusionViewDirection;
+  varying float vDistance;
+  ${cutout.vertexDefinitions}
+
+  void main() {
+    #include<instancesVertex>
+    vec4 worldPosition = finalWorld * vec4(position, 1.0);
+    vDistance = dot(worldPosition.xyz - occlusionEye, occlusionViewDirection);
+    ${cutout.vertexMain}
+    gl_Position = occlusionViewProjection * worldPosition;
+  }
+`;
+
+const depthFragmentShader = (cutout: CutoutShaderCode) => `
+  precision highp float;
+  varying float vDistance;
+  ${cutout.fragmentDefinitions}
+
+  void main() {
+    ${cutout.fragmentMain}
+    gl_FragColor = vec4(0.0, 0.0, 0.0, vDistance);
+  }
+`;
+
+/**
+ * Occlusion test shared with the baking materials for one sampled direction.
+ * `front` is rendered from the side `direction` points to and `back` from the
+ * opposite side, so that every texel can test the direction in its own
+ * hemisphere. Both store distances from their near plane, which lies
+ * `extent` away from `center`, in alpha. Irradiance bounces store the
+ * radiance of the surfaces in RGB, see `createBounceRadianceMaterial`.
+ */
+export interface OcclusionSample {
+  front: BABYLON.RenderTargetTexture;
+  back: BABYLON.RenderTargetTexture;
+  frontMatrix: BABYLON.Matrix;
+  backMatrix: BABYLON.Matrix;
+  direction: BABYLON.Vector3;
+  center: BABYLON.Vector3;
+  extent: number;
+  bias: number;
+  /** Occlusion radius, or 0 for no limit. */
+  radius: number;
+}
+
+/**
+ * Renders the orthographic depth maps that ambient occlusion bakes test
+ * every sampled direction against. Irradiance bakes render their bounce
+ * sources with it too.
+ */
+export class AmbientOcclusionSampler {
+  private _scene: BABYLON.Scene;
+  private _options: Required<AmbientOcclusionOptions>;
+  private _depthMaterial: BABYLON.ShaderMaterial;
+  /** Depth materials of the alpha tested casters, by caster material. */
+  private _cutoutDepthMaterials: Map<number, BABYLON.ShaderMaterial> =
+    new Map();
+  private _occluderMaterials: Set<BABYLON.ShaderMaterial> = new Set();
+  private _sample: OcclusionSample;
+  private _bounds: Bounds | null = null;
+
+  constructor(scene: BABYLON.Scene, options: AmbientOcclusionOptions = {}) {
+    this._scene = scene;
+    this._options = { ...DEFAULT_AMBIENT_OCCLUSION_OPTIONS, ...options };
+
+    this._depthMaterial = this._createDepthMaterial("ambientOcclusion_depth");
+
+    this._sample = {
+      front: this._createDepthRTT("ambientOcclusion_front"),
+      back: this._createDepthRTT("ambientOcclusion_back"),
+      frontMatrix: BABYLON.Matrix.Identity(),
+      backMatrix: BABYLON.Matrix.Identity(),
+      direction: new BABYLON.Vector3(0, 1, 0),
+      center: BABYLON.Vector3.Zero(),
+      extent: 0,
+      bias: 0,
+      radius: this._options.radius ?? 0,
+    };
+  }
+
+  public get options(): Readonly<Required<AmbientOcclusionOptions>> {
+    return this._options;
+  }
+
+  /**
+   * The current sample. The same object is updated by every `render()`.
+   */
+  public get sample(): OcclusionSample {
+    return this._sample;
+  }
+
+  /**
+   * Sets the occluders, every enabled and visible mesh of the scene, and fits
+   * the depth maps around them.
+   * @param getMaterial Material rendering a mesh into the depth maps, which
+   *   must declare the uniforms of the built-in depth material. Instances
+   *   render with the material of their source mesh. The built-in one
+   *   discards the texels alpha tested casters cut out, see
+   *   `getCasterCutout`.
+   */
+  public updateOccluders(
+    getMaterial: (mesh: BABYLON.AbstractMesh) => BABYLON.ShaderMaterial = (
+      mesh
+    ) => this._getDepthMaterial(mesh)
+  ): void {
+    const occluders = this._scene.meshes.filter(
+      (mesh) =>
+        mesh.isEnabled() && mesh.isVisible && mesh.getTotalVertices() > 0
+    );
+
+    this._bounds = null;
+    for (const mesh of occluders) {
+      const bounds = getWorldBounds(mesh);
+      if (!this._bounds) {
+        this._bounds = bounds;
+      } else {
+        this._bounds.min.minimizeInPlace(bounds.min);
+        this._bounds.max.maximizeInPlace(bounds.max);
+      }
+    }
+
+    const renderingMeshes = new Set(occluders.map(getLightmapRenderingMesh));
+    this._occluderMaterials.clear();
+    for (const rtt of [this._sample.front, this._sample.back]) {
+      rtt.renderList = occluders;
+      for (const mesh of renderingMeshes) {
+        const material = getMaterial(mesh);
+        this._occluderMaterials.add(material);
+        rtt.setMaterialForRendering(mesh, material);
+      }
+    }
+  }
+
+  public isReady(): boolean {
+    return (
+      this._sample.front.isReadyForRendering() &&
+      this._sample.back.isReadyForRendering()
+    );
+  }
+
+  /**
+   * Renders the depth maps for a sampled direction, see `OcclusionSample`.
+   */
+  public render(direction: BABYLON.Vector3): void {
+    if (!this._bounds) {
+      this.updateOccluders();
+    }
+    const { min, max } = this._bounds!;
+    const sample = this._sample;
+    const { depthResolution, bias } = this._options;
+
+    sample.direction.copyFrom(direction).normalize();
+    min.addToRef(max, sample.center).scaleInPlace(0.5);
+    // Keep the near planes off the bounds
+    const halfDiagonal = Math.max(BABYLON.Vector3.Distance(min, max) / 2, 1e-3);
+    sample.extent = halfDiagonal * 1.01;
+    sample.bias = bias ?? (4 * sample.extent) / depthResolution;
+
+    this._renderDepth(sample.front, sample.frontMatrix, sample.direction);
+    this._renderDepth(
+      sample.back,
+      sample.backMatrix,
+      sample.direction.negate()
+    );
+  }
+
+  public dispose(): void {
+    this._depthMaterial.dispose();
+    this._cutoutDepthMaterials.forEach((material) => material.dispose());
+    this._cutoutDepthMaterials.clear();
+    this._sample.front.dispose();
+    this._sample.back.dispose();
+  }
+
+  private _getDepthMaterial(
+    mesh: BABYLON.AbstractMesh
+  ): BABYLON.ShaderMaterial {
+    const cutout = getCasterCutout(mesh);
+    if (!cutout) {
+      return this._depthMaterial;
+    }
+
+    const { uniqueId } = mesh.material!;
+    let material = this._cutoutDepthMaterials.get(uniqueId);
+    if (!material) {
+      material = this._createDepthMaterial(
+        `ambientOcclusion_depth_${mesh.material!.name}`,
+        cutout
+      );
+      this._cutoutDepthMaterials.set(uniqueId, material);
+    }
+    return material;
+  }
+
+  private _createDepthMaterial(
+    name: string,
+    cutout: CasterCutout | null = null
+  ): BABYLON.ShaderMaterial {
+    const code = getCutoutShaderCode(cutout);
+    const options: Partial<BABYLON.IShaderMaterialOptions> = {
+      attributes: ["position"],
+      uniforms: [
+        "world",
+        "occlusionViewProjection",
+        "occlusionEye",
+        "occlusionViewDirection",
+      ],
+    };
+    addCutoutShaderOptions(options, cutout);
+
+    const material = new BABYLON.ShaderMaterial(
+      name,
+      this._scene,
+      {
+        vertexSource: depthVertexShader(code),
+        fragmentSource: depthFragmentShader(code),
+      },
+      options
+    );
+    // Back faces occlude as well
+    material.backFaceCulling = false;
+    bindCasterCutout(material, cutout);
+
+    return material;
+  }
+
+  private _renderDepth(
+    rtt: BABYLON.RenderTargetTexture,
+    viewProjection: BABYLON.Matrix,
+    toEye: BABYLON.Vector3
+  ): void {
+    const { center, extent } = this._sample;
+    const eye = center.add(toEye.scale(extent));
+    const up =
+      Math.abs(toEye.y) > 0.99
+        ? BABYLON.Vector3.Forward()
+        : BABYLON.Vector3.Up();
+
+    const view = BABYLON.Matrix.LookAtLH(eye, center, up);
+    const projection = BABYLON.Matrix.OrthoOffCenterLH(
+      -extent,
+      extent,
+      -extent,
+      extent,
+      0,
+      2 * extent,
+      this._scene.getEngine().isNDCHalfZRange
+    );
+    view.multiplyToRef(projection, viewProjection);
+
+    for (const material of this._occluderMaterials) {
+      material.setMatrix("occlusionViewProjection", viewProjection);
+      material.setVector3("occlusionEye", eye);
+      material.setVector3("occlusionViewDirection", toEye.negate());
+    }
+    // Nothing in front of the far plane
+    rtt.clearColor = new BABYLON.Color4(0, 0, 0, 2 * extent);
+    this._scene.resetCachedMaterial();
+    rtt.render();
+  }
+
+  private _createDepthRTT(name: string): BABYLON.RenderTargetTexture {
+    const type = this._scene.getEngine().getCaps().textureFloatRender
+      ? BABYLON.Constants.TEXTURETYPE_FLOAT
+      : BABYLON.Constants.TEXTURETYPE_HALF_FLOAT;
+
+    const rtt = new BABYLON.RenderTargetTexture(
+      name,
+      this._options.depthResolution,
+      this._scene,
+      false,
+      true,
+      type,
+      false,
+      BABYLON.Texture.NEAREST_SAMPLINGMODE
+    );
+    rtt.wrapU = BABYLON.Texture.CLAMP_ADDRESSMODE;
+    rtt.wrapV = BABYLON.Texture.CLAMP_ADDRESSMODE;
+    rtt.activeCamera = null; // Disable frustum culling
+    rtt.customIsReadyFunction = isLightmapMeshReady;
+
+    return rtt;
+  }
+}
@@ -0,0 +1,169 @@
+import * as BABYLON from "@babylonjs/core";
+import {
+  ATLAS_UV_DECLARATION,
+  getLightmapRenderingMesh,
+  hasLightmapScaleOffset,
+  LIGHTMAP_SCALE_OFFSET_KIND,
+  usesInstancedRendering,
+} from "./lightmapInstances";
+import { getUVKind } from "./uvUtils";
+
+const guideVertexShader = (uvAttribute: string) => `
+  precision highp float;
+  attribute vec3 position;
+  attribute vec3 normal;
+  attribute vec2 ${uvAttribute};
+  #include<instancesDeclaration>
+  varying vec3 vWorldPosition;
+  varying vec3 vWorldNormal;
+  ${ATLAS_UV_DECLARATION}
+
+  void main() {
+    #include<instancesVertex>
+    vWorldPosition = (finalWorld * vec4(position, 1.0)).xyz;
+    vWorldNormal = mat3(finalWorld) * normal;
+    gl_Position = vec4((toAtlasUV(${uvAttribute}) - 0.5) * 2.0, 0.0, 1.0);
+  }
+`;
+
+const GUIDE_FRAGMENT_SHADER = `
+  precision highp float;
+  varying vec3 vWorldPosition;
+  varying vec3 vWorldNormal;
+
+  void main() {
+    #ifdef NORMALS
+      gl_FragColor = vec4(normalize(vWorldNormal), 1.0);
+    #else
+      gl_FragColor = vec4(vWorldPosition, 1.0);
+    #endif
+  }
+`;
+
+/**
+ * World positions and normals of the baked meshes, rendered in atlas space.
+ * The alpha channel of both textures is 1 where a texel is covered by a
+ * chart's triangles and 0 elsewhere.
+ */
+export class AtlasGuides {
+  private _scene: BABYLON.Scene;
+  private _resolution: number;
+  private _uvChannel: number;
+  // Keyed by guide and by whether meshes have a lightmap scale and offset
+  private _materials: Map<string, BABYLON.ShaderMaterial> = new Map();
+  private _positionRTT: BABYLON.RenderTargetTexture;
+  private _normalRTT: BABYLON.RenderTargetTexture;
+
+  constructor(scene: BABYLON.Scene, resolution: number, uvChannel: number) {
+    this._scene = scene;
+    this._resolution = resolution;
+    this._uvChannel = uvChannel;
+
+    this._positionRTT = this._createGuideRTT("atlasGuides_positions");
+    this._normalRTT = this._createGuideRTT("atlasGuides_normals");
+  }
+
+  public get positions(): BABYLON.RenderTargetTexture {
+    return this._positionRTT;
+  }
+
+  public get normals(): BABYLON.RenderTargetTexture {
+    return this._normalRTT;
+  }
+
+  /**
+   * Renders the guides of the meshes laid out in one atlas page.
+   */
+  public async render(meshes: BABYLON.AbstractMesh[]): Promise<void> {
+    const guides: [BABYLON.RenderTargetTexture, boolean][] = [
+      [this._positionRTT, false],
+      [this._normalRTT, true],
+    ];
+    // Instances render with the material of their source mesh
+    const renderingMeshes = [
+      ...new Set(meshes.map(getLightmapRenderingMesh)),
+    ];
+
+    for (const [rtt, normals] of guides) {
+      rtt.renderList = [...meshes];
+      await Promise.all(
+        renderingMeshes.map((mesh) => {
+          const material = this._getGuideMaterial(
+            normals,
+            hasLightmapScaleOffset(mesh)
+          );
+          rtt.setMaterialForRendering(mesh, material);
+          return material.forceCompilationAsync(mesh, {
+            useInstances: usesInstancedRendering(mesh),
+          });
+        })
+      );
+      rtt.render();
+    }
+  }
+
+  public dispose(): void {
+    this._materials.forEach((material) => material.dispose());
+    this._materials.clear();
+    this._positionRTT.dispose();
+    this._normalRTT.dispose();
+  }
+
+  private _getGuideMaterial(
+    normals: boolean,
+    scaleOffset: boolean
+  ): BABYLON.ShaderMaterial {
+    const guide = normals ? "normals" : "positions";
+    const name = scaleOffset ? `${guide}_scaleOffset` : guide;
+    let material = this._materials.get(name);
+    if (material) {
+      return material;
+    }
+
+    const uvAttribute = getUVKind(this._uvChannel);
+    const attributes = ["position", "normal", uvAttribute];
+    const defines: string[] = [];
+    if (normals) {
+      defines.push("#define NORMALS");
+    }
+    if (scaleOffset) {
+      attributes.push(LIGHTMAP_SCALE_OFFSET_KIND);
+      defines.push("#define LIGHTMAP_SCALE_OFFSET");
+    }
+
+    material = new BABYLON.ShaderMaterial(
+      `atlasGuides_${name}`,
+      this._scene,
+      {
+        vertexSource: guideVertexShader(uvAttribute),
+        fragmentSource: GUIDE_FRAGMENT_SHADER,
+      },
+      { attributes, uniforms: ["world"], defines }
+    );
+    material.backFaceCulling = false; // Prevent culling in UV space
+    this._materials.set(name, material);
+
+    return material;
+  }
+
+  private _createGuideRTT(name: string): BABYLON.RenderTargetTexture {
+    const type = this._scene.getEngine().getCaps().textureFloatRender
+      ? BABYLON.Constants.TEXTURETYPE_FLOAT
+      : BABYLON.Constants.TEXTURETYPE_HALF_FLOAT;
+
+    const rtt = new BABYLON.RenderTargetTexture(
+      name,
+      this._resolution,
+      this._scene,
+      false,
+      true,
+      type,
+      false,
+      BABYLON.Texture.NEAREST_SAMPLINGMODE
+    );
+    rtt.activeCamera = null; // Disable frustum culling
+    rtt.clearColor = new BABYLON.Color4(0, 0, 0, 0);
+
+    return rtt;
+  }
+}
@@ -0,0 +1,230 @@
+import { potpack } from "./potpack";
+import type {
+  AtlasLayout,
+  AtlasPackingOptions,
+  AtlasPackingResult,
+  AtlasPage,
+  Box,
+  LightmapChart,
+} from "./types";
+
+const MAX_PACKING_ATTEMPTS = 32;
+// Share of the atlas aimed for when the texel density is picked automatically
+const AUTO_FILL_TARGET = 0.8;
+
+/**
+ * Packs charts into a square atlas at a uniform texel density. Every chart is
+ * surrounded by `padding / 2` empty texels, so neighbouring charts end up
+ * `padding` texels apart. The density is lowered until the charts fit.
+ */
+export function packAtlas(
+  charts: LightmapChart[],
+  { resolution, texelsPerUnit, padding }: AtlasPackingOptions
+): AtlasPackingResult {
+  if (charts.length === 0) {
+    return {
+      placements: [],
+      texelsPerUnit: texelsPerUnit ?? 0,
+      width: 0,
+      height: 0,
+      fill: 0,
+    };
+  }
+
+  let density =
+    texelsPerUnit ?? estimateTexelsPerUnit(getChartArea(charts), resolution);
+
+  for (let attempt = 0; attempt < MAX_PACKING_ATTEMPTS; attempt++) {
+    const packing = packCharts(charts, density, padding);
+    const size = Math.max(packing.width, packing.height);
+    if (size <= resolution) {
+      warnIfDensityLowered(texelsPerUnit, density, resolution);
+      return packing;
+    }
+
+    density *= 0.95 * (resolution / size);
+  }
+
+  throw new Error(
+    `Unable to pack ${charts.length} lightmap charts into a ${resolution}px atlas with ${padding}px padding.`
+  );
+}
+
+/**
+ * Packs the charts of several meshes into up to `maxPages` atlas pages. The
+ * charts of one mesh always share a page, and meshes are assigned to pages in
+ * input order. The density is only lowered once all pages are full.
+ */
+export function packAtlasPages(
+  meshCharts: (LightmapChart[] | null)[],
+  { resolution, texelsPerUnit, padding, maxPages = 1 }: AtlasPackingOptions
+): AtlasLayout {
+  const allCharts = meshCharts.flatMap((charts) => charts ?? []);
+  if (allCharts.length === 0) {
+    return {
+      pages: [],
+      meshPages: meshCharts.map(() => -1),
+      texelsPerUnit: texelsPerUnit ?? 0,
+    };
+  }
+
+  // Without a density target everything aims for the first page
+  let density =
+    texelsPerUnit ??
+    estimateTexelsPerUnit(getChartArea(allCharts), resolution);
+
+  for (let attempt = 0; attempt < MAX_PACKING_ATTEMPTS; attempt++) {
+    const layout = tryPackPages(
+      meshCharts,
+      density,
+      padding,
+      resolution,
+      maxPages
+    );
+    if (layout) {
+      warnIfDensityLowered(texelsPerUnit, density, resolution);
+      return layout;
+    }
+
+    density *= 0.9;
+  }
+
+  throw new Error(
+    `Unable to pack ${allCharts.length} lightmap charts into ${maxPages} ${resolution}px atlas pages with ${padding}px padding.`
+  );
+}
+
+/**
+ * Writes the atlas UVs of every chart vertex into `uvs`.
+ */
+export function writeChartUVs(
+  charts: LightmapChart[],
+  placements: AtlasPackingResult["placements"],
+  texelsPerUnit: number,
+  resolution: number,
+  uvs: Float32Array
+): void {
+  charts.forEach((chart, index) => {
+    const { x, y } = placements[index];
+    for (let i = 0; i < chart.vertexCount; i++) {
+      const vertex = chart.vertexStart + i;
+      uvs[vertex * 2] = (x + chart.coords[i * 2] * texelsPerUnit) / resolution;
+      uvs[vertex * 2 + 1] =
+        (y + chart.coords[i * 2 + 1] * texelsPerUnit) / resolution;
+    }
+  });
+}
+
+/**
+ * Packs the charts of a geometry shared by several instances into a layout of
+ * its own, at a fixed density. The instances then place the whole layout in
+ * the atlas like a single chart, see `createInstanceCharts`.
+ */
+export function packSharedCharts(
+  charts: LightmapChart[],
+  texelsPerUnit: number,
+  padding: number
+): AtlasPackingResult {
+  return packCharts(charts, texelsPerUnit, padding);
+}
+
+/** Total area of the charts' extents, in square world units. */
+export function getChartArea(charts: LightmapChart[]): number {
+  let area = 0;
+  for (const chart of charts) {
+    area += chart.width * chart.height;
+  }
+  return area;
+}
+
+/**
+ * Texel density at which charts covering `area` square world units fill the
+ * share of a square atlas aimed for when no density is given.
+ */
+export function estimateTexelsPerUnit(
+  area: number,
+  resolution: number
+): number {
+  if (area === 0) {
+    return 1;
+  }
+  return Math.sqrt((resolution * resolution * AUTO_FILL_TARGET) / area);
+}
+
+function packCharts(
+  charts: LightmapChart[],
+  density: number,
+  padding: number
+): AtlasPackingResult {
+  const boxes: Box[] = charts.map((chart) => ({
+    w: Math.ceil(chart.width * density) + padding,
+    h: Math.ceil(chart.height * density) + padding,
+  }));
+
+  const { w, h, fill } = potpack(boxes);
+  const placements = boxes.map((box) => ({
+    x: box.x! + padding / 2,
+    y: box.y! + padding / 2,
+  }));
+
+  return { placements, texelsPerUnit: density, width: w, height: h, fill };
+}
+
+function tryPackPages(
+  meshCharts: (LightmapChart[] | null)[],
+  density: number,
+  padding: number,
+  resolution: number,
+  maxPages: number
+): AtlasLayout | null {
+  const pages: (AtlasPage & { charts: LightmapChart[] })[] = [];
+  const meshPages = meshCharts.map(() => -1);
+  const fits = (packing: AtlasPackingResult) =>
+    Math.max(packing.width, packing.height) <= resolution;
+
+  for (let meshIndex = 0; meshIndex < meshCharts.length; meshIndex++) {
+    const charts = meshCharts[meshIndex];
+    if (!charts || charts.length === 0) continue;
+
+    const page = pages[pages.length - 1];
+    if (page) {
+      const packing = packCharts([...page.charts, ...charts], density, padding);
+      if (fits(packing)) {
+        page.meshIndices.push(meshIndex);
+        page.charts.push(...charts);
+        page.packing = packing;
+        meshPages[meshIndex] = pages.length - 1;
+        continue;
+      }
+    }
+
+    if (pages.length >= maxPages) {
+      return null;
+    }
+
+    const packing = packCharts(charts, density, padding);
+    if (!fits(packing)) {
+      return null;
+    }
+    pages.push({ meshIndices: [meshIndex], charts: [...charts], packing });
+    meshPages[meshIndex] = pages.length - 1;
+  }
+
+  return {
+    pages: pages.map(({ meshIndices, packing }) => ({ meshIndices, packing })),
+    meshPages,
+    texelsPerUnit: density,
+  };
+}
+
+function warnIfDensityLowered(
+  texelsPerUnit: number | null,
+  density: number,
+  resolution: number
+): void {
+  if (texelsPerUnit !== null && density !== texelsPerUnit) {
+    console.warn(
+      `Lightmap charts do not fit the ${resolution}px atlas at ${texelsPerUnit} texels per unit, using ${density.toFixed(2)}.`
+    );
+  }
+}
@@ -0,0 +1,168 @@
+import * as BABYLON from "@babylonjs/core";
+import type { BakeJobState, BakeProgress } from "./types";
+
+/** Callbacks through which a `BakeJob` controls its bake. */
+export interface BakeJobHooks {
+  /** Releases the bake's resources when it is cancelled. */
+  onStop: () => void;
+  /** Puts back the scene state the bake changes, while it is paused. */
+  onPause?: () => void;
+  /** Applies the bake's scene state again when it is resumed. */
+  onResume?: () => void;
+}
+
+/**
+ * Handle on a running bake, returned by `ProgressiveShadowMap.render()`. The
+ * job can be awaited like a promise: it resolves once every iteration has
+ * been rendered and rejects when the bake is cancelled.
+ */
+export class BakeJob implements PromiseLike<void> {
+  private _state: BakeJobState = "running";
+  private _totalIterations: number;
+  private _iteration: number = 0;
+  private _onProgressObservable = new BABYLON.Observable<BakeProgress>();
+  private _promise: Promise<void>;
+  private _resolve!: () => void;
+  private _reject!: (reason: unknown) => void;
+  private _hooks: BakeJobHooks;
+  private _signal?: AbortSignal;
+
+  // Elapsed time excludes pauses
+  private _elapsed: number = 0;
+  private _runningSince: number;
+
+  constructor(
+    totalIterations: number,
+    hooks: BakeJobHooks,
+    signal?: AbortSignal
+  ) {
+    this._totalIterations = totalIterations;
+    this._hooks = hooks;
+    this._runningSince = performance.now();
+    this._promise = new Promise<void>((resolve, reject) => {
+      this._resolve = resolve;
+      this._reject = reject;
+    });
+    // Cancelling a job nobody awaits, e.g. by disposing the bake, is no error
+    this._promise.catch(() => {});
+
+    if (signal) {
+      this._signal = signal;
+      if (signal.aborted) {
+        this._onAbort();
+      } else {
+        signal.addEventListener("abort", this._onAbort);
+      }
+    }
+  }
+
+  public get state(): BakeJobState {
+    return this._state;
+  }
+
+  public get isFinished(): boolean {
+    return this._state === "completed" || this._state === "cancelled";
+  }
+
+  public get progress(): BakeProgress {
+    const elapsed =
+      this._elapsed +
+      (this._state === "running" ? performance.now() - this._runningSince : 0);
+    const remaining = this._totalIterations - this._iteration;
+
+    return {
+      iteration: this._iteration,
+      totalIterations: this._totalIterations,
+      elapsed,
+      eta:
+        this._iteration > 0 ? (elapsed / this._iteration) * remaining : null,
+    };
+  }
+
+  /**
+   * Notified after every blend iteration.
+   */
+  public get onProgressObservable(): BABYLON.Observable<BakeProgress> {
+    return this._onProgressObservable;
+  }
+
+  /**
+   * Pauses the bake. The scene renders as it was before the bake in the
+   * meantime, e.g. with its lights unjittered.
+   */
+  public pause(): void {
+    if (this._state !== "running") {
+      return;
+    }
+    this._stopClock();
+    this._state = "paused";
+    this._hooks.onPause?.();
+  }
+
+  public resume(): void {
+    if (this._state !== "paused") {
+      return;
+    }
+    this._runningSince = performance.now();
+    this._state = "running";
+    this._hooks.onResume?.();
+  }
+
+  /**
+   * Stops the bake, keeping the iterations accumulated so far, and rejects
+   * the job.
+   */
+  public cancel(
+    reason: unknown = new Error("Progressive shadow map bake was cancelled.")
+  ): void {
+    if (this.isFinished) {
+      return;
+    }
+    this._stopClock();
+    this._state = "cancelled";
+    this._finish();
+    this._hooks.onStop();
+    this._reject(reason);
+  }
+
+  public then<TResult1 = void, TResult2 = never>(
+    onfulfilled?: ((value: void) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this._promise.then(onfulfilled, onrejected);
+  }
+
+  /** @internal */
+  public _reportIteration(): BakeProgress {
+    this._iteration++;
+    const progress = this.progress;
+    this._onProgressObservable.notifyObservers(progress);
+    return progress;
+  }
+
+  /** @internal */
+  public _complete(): void {
+    if (this.isFinished) {
+      return;
+    }
+    this._stopClock();
+    this._state = "completed";
+    this._finish();
+    this._resolve();
+  }
+
+  private _onAbort = (): void => {
+    this.cancel(this._signal?.reason);
+  };
+
+  private _stopClock(): void {
+    if (this._state === "running") {
+      this._elapsed += performance.now() - this._runningSince;
+    }
+  }
+
+  private _finish(): void {
+    this._signal?.removeEventListener("abort", this._onAbort);
+    this._onProgressObservable.clear();
+  }
+}
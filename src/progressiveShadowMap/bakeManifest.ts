@@ -0,0 +1,197 @@
+import * as BABYLON from "@babylonjs/core";
+import {
+  getLightmapRenderingMesh,
+  setLightmapScaleOffsets,
+} from "./lightmapInstances";
+import { enableLightmapScaleOffset } from "./lightmapScaleOffsetMaterialPlugin";
+import {
+  bindMaterialAmbientOcclusion,
+  bindMaterialLightmap,
+} from "./materialLightmaps";
+import type { BakeManifest, BakeManifestMesh } from "./types";
+import { applyVertexRemap, getUVKind } from "./uvUtils";
+
+export const BAKE_MANIFEST_VERSION = 1;
+
+export interface AppliedBakeManifest {
+  /** Lightmap texture of every atlas page, `null` for unbaked pages. */
+  textures: (BABYLON.Texture | null)[];
+  /** Meshes the manifest was applied to. */
+  meshes: BABYLON.AbstractMesh[];
+}
+
+/**
+ * Hashes the positions and indices of a mesh (FNV-1a), so that a bake can
+ * detect whether the geometry it was made for has changed.
+ */
+export function computeGeometryHash(mesh: BABYLON.AbstractMesh): string {
+  const positions = mesh.getVerticesData(BABYLON.VertexBuffer.PositionKind);
+  const indices = mesh.getIndices();
+
+  let hash = 0x811c9dc5;
+  const add = (bytes: Uint8Array) => {
+    for (let i = 0; i < bytes.length; i++) {
+      hash ^= bytes[i];
+      hash = Math.imul(hash, 0x01000193);
+    }
+  };
+
+  if (positions) {
+    add(new Uint8Array(Float32Array.from(positions).buffer));
+  }
+  if (indices) {
+    add(new Uint8Array(Uint32Array.from(indices).buffer));
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Encodes binary data, such as an encoded lightmap, as a base64 data URL.
+ */
+export function arrayBufferToDataUrl(
+  buffer: ArrayBuffer,
+  mimeType: string
+): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+/**
+ * Applies a bake manifest to the meshes of a scene: restores the baked UVs,
+ * loads the lightmap pages and assigns them as shadow maps to the meshes'
+ * materials. Nothing is changed if a mesh is missing or its geometry no
+ * longer matches the bake. The materials of meshes on unbaked pages keep
+ * their own lightmaps.
+ */
+export function applyBakeManifest(
+  scene: BABYLON.Scene,
+  manifest: BakeManifest
+): AppliedBakeManifest {
+  if (manifest.version !== BAKE_MANIFEST_VERSION) {
+    throw new Error(`Unsupported bake manifest version ${manifest.version}.`);
+  }
+
+  const targets = manifest.meshes.map((entry) => {
+    const mesh = findMesh(scene, entry);
+    if (!mesh) {
+      throw new Error(`Mesh ${entry.name} from the bake manifest not found.`);
+    }
+
+    const geometryHash = computeGeometryHash(mesh);
+    if (geometryHash !== entry.geometryHash) {
+      throw new Error(
+        `Geometry of mesh ${entry.name} does not match the bake (expected ${entry.geometryHash}, got ${geometryHash}).`
+      );
+    }
+
+    if (
+      entry.vertexRemap &&
+      !(getLightmapRenderingMesh(mesh) instanceof BABYLON.Mesh)
+    ) {
+      throw new Error(`Mesh ${entry.name} cannot be unwrapped.`);
+    }
+
+    const instances =
+      mesh instanceof BABYLON.Mesh && mesh.hasThinInstances
+        ? mesh.thinInstanceCount
+        : 1;
+    if (
+      entry.lightmapScaleOffsets &&
+      entry.lightmapScaleOffsets.length !== instances * 4
+    ) {
+      throw new Error(
+        `Instances of mesh ${entry.name} do not match the bake (expected ${entry.lightmapScaleOffsets.length / 4}, got ${instances}).`
+      );
+    }
+
+    return mesh;
+  });
+
+  const textures = manifest.pages.map((page, pageIndex) => {
+    if (page.image === null) {
+      return null;
+    }
+    const texture = new BABYLON.Texture(
+      page.image,
+      scene,
+      false,
+      true,
+      BABYLON.Texture.BILINEAR_SAMPLINGMODE
+    );
+    texture.name = `bakedShadowMap_page${pageIndex}`;
+    texture.wrapU = BABYLON.Texture.CLAMP_ADDRESSMODE;
+    texture.wrapV = BABYLON.Texture.CLAMP_ADDRESSMODE;
+    texture.coordinatesIndex = manifest.settings.uvChannel - 1;
+    return texture;
+  });
+
+  // Instances and meshes sharing a geometry are only unwrapped once
+  const remapped = new Set<BABYLON.AbstractMesh>();
+  manifest.meshes.forEach((entry, index) => {
+    const mesh = targets[index];
+    const renderingMesh = getLightmapRenderingMesh(mesh) as BABYLON.Mesh;
+    const geometryOwner = renderingMesh.geometry?.meshes[0] ?? renderingMesh;
+
+    if (entry.vertexRemap && entry.indices && !remapped.has(geometryOwner)) {
+      applyVertexRemap(
+        renderingMesh,
+        Uint32Array.from(entry.vertexRemap),
+        Uint32Array.from(entry.indices)
+      );
+      remapped.add(geometryOwner);
+    }
+    mesh.setVerticesData(
+      getUVKind(manifest.settings.uvChannel),
+      Float32Array.from(entry.uvs)
+    );
+
+    const material = mesh.material;
+    if (entry.lightmapScaleOffsets) {
+      setLightmapScaleOffsets(
+        mesh,
+        Float32Array.from(entry.lightmapScaleOffsets)
+      );
+      if (
+        material &&
+        !enableLightmapScaleOffset(material, manifest.settings.uvChannel)
+      ) {
+        console.warn(
+          `Material ${material.name} of mesh ${mesh.name} does not support lightmap scale and offsets.`
+        );
+      }
+    }
+
+    const texture = textures[entry.page];
+    if (!texture) {
+      return;
+    }
+
+    const { bakeMode = "shadow" } = manifest.settings;
+    const binding = !material
+      ? null
+      : bakeMode === "ambientOcclusion"
+        ? bindMaterialAmbientOcclusion(material)
+        : bindMaterialLightmap(material, undefined, bakeMode === "shadow");
+    if (binding) {
+      binding.apply(texture);
+    } else if (material) {
+      console.warn(
+        `Material ${material.name} of mesh ${mesh.name} does not support lightmaps.`
+      );
+    }
+  });
+
+  return { textures, meshes: targets };
+}
+
+function findMesh(
+  scene: BABYLON.Scene,
+  entry: BakeManifestMesh
+): BABYLON.AbstractMesh | null {
+  return scene.getMeshById(entry.id) ?? scene.getMeshByName(entry.name);
+}
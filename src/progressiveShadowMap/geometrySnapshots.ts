@@ -0,0 +1,111 @@
+import * as BABYLON from "@babylonjs/core";
+import { removeLightmapScaleOffsets } from "./lightmapInstances";
+import { getSubMeshRanges, setSubMeshRanges } from "./uvUtils";
+import type { SubMeshRange } from "./uvUtils";
+
+interface VertexBufferSnapshot {
+  kind: string;
+  data: Float32Array;
+  updatable: boolean;
+  stride: number;
+}
+
+/**
+ * Vertex data of a geometry as it was before a bake first changed it, see
+ * `captureGeometry`.
+ */
+export interface GeometrySnapshot {
+  geometry: BABYLON.Geometry;
+  /** Per-vertex kinds the geometry had. */
+  kinds: string[];
+  /** Copies of the vertex buffers that may be changed. */
+  buffers: VertexBufferSnapshot[];
+  /** Indices and sub-meshes, when the vertices may be rebuilt. */
+  indices: BABYLON.IndicesArray | null;
+  subMeshes: Map<BABYLON.AbstractMesh, SubMeshRange[]>;
+}
+
+/**
+ * Copies what a bake writes to a geometry: the vertex buffer of `uvKind`, or
+ * with `vertices` every vertex buffer and the indices, as the unwrapper
+ * rebuilds the vertices.
+ */
+export function captureGeometry(
+  geometry: BABYLON.Geometry,
+  uvKind: string,
+  vertices: boolean
+): GeometrySnapshot {
+  const kinds = geometry
+    .getVerticesDataKinds()
+    .filter((kind) => !geometry.getVertexBuffer(kind)?.getIsInstanced());
+  const buffers: VertexBufferSnapshot[] = [];
+  for (const kind of vertices ? kinds : kinds.filter((k) => k === uvKind)) {
+    const vertexBuffer = geometry.getVertexBuffer(kind)!;
+    const data = geometry.getVerticesData(kind, true);
+    if (!data) continue;
+    buffers.push({
+      kind,
+      data: Float32Array.from(data),
+      updatable: vertexBuffer.isUpdatable(),
+      stride: vertexBuffer.getSize(),
+    });
+  }
+
+  const subMeshes = new Map<BABYLON.AbstractMesh, SubMeshRange[]>();
+  if (vertices) {
+    for (const mesh of geometry.meshes) {
+      subMeshes.set(mesh, getSubMeshRanges(mesh));
+    }
+  }
+
+  return {
+    geometry,
+    kinds,
+    buffers,
+    indices: vertices ? geometry.getIndices(true) : null,
+    subMeshes,
+  };
+}
+
+/**
+ * Puts back the vertex data of `captureGeometry`, removing the vertex
+ * buffers added since, and the lightmap scale and offsets of the meshes
+ * using the geometry.
+ */
+export function restoreGeometry({
+  geometry,
+  kinds,
+  buffers,
+  indices,
+  subMeshes,
+}: GeometrySnapshot): void {
+  if (geometry.isDisposed()) {
+    return;
+  }
+
+  for (const kind of geometry.getVerticesDataKinds()) {
+    const vertexBuffer = geometry.getVertexBuffer(kind);
+    if (!kinds.includes(kind) && !vertexBuffer?.getIsInstanced()) {
+      geometry.removeVerticesData(kind);
+    }
+  }
+  for (const { kind, data, updatable, stride } of buffers) {
+    geometry.setVerticesData(kind, data, updatable, stride);
+  }
+
+  if (indices) {
+    const totalVertices = geometry.getTotalVertices();
+    geometry.setIndices(indices, totalVertices);
+    for (const [mesh, ranges] of subMeshes) {
+      if (mesh.geometry === geometry) {
+        setSubMeshRanges(mesh, ranges);
+      }
+    }
+  }
+
+  for (const mesh of geometry.meshes) {
+    removeLightmapScaleOffsets(mesh);
+    // Removing vertex buffers doesn't update the defines of the materials
+    mesh._markSubMeshesAsAttributesDirty();
+  }
+}
@@ -0,0 +1,367 @@
+import { GLTF2Export } from "@babylonjs/serializers";
+import { encodePNG, readLightmapPixels } from "./lightmapExport";
+import { hasLightmapScaleOffset } from "./lightmapInstances";
+import type { ProgressiveShadowMap } from "./progressiveShadowMap";
+import type {
+  BakedGLBExportOptions,
+  GLTFLightmapMode,
+  LightmapPixels,
+} from "./types";
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const GLB_CHUNK_JSON = 0x4e4f534a;
+const GLB_CHUNK_BIN = 0x004e4942;
+const GL_LINEAR = 9729;
+const GL_CLAMP_TO_EDGE = 33071;
+
+export const GLTF_LIGHTMAP_EXTENSION = "MOZ_lightmap";
+
+export interface GLBLightmapOptions {
+  lightmapMode?: GLTFLightmapMode;
+  lightmapIntensity?: number;
+  /** glTF texture coordinate set the lightmap is read from. */
+  texCoord?: number;
+}
+
+// Subset of the glTF 2.0 schema touched when injecting lightmaps
+interface GLTFPrimitive {
+  attributes: Record<string, number>;
+  material?: number;
+}
+
+interface GLTFMaterial {
+  name?: string;
+  occlusionTexture?: { index: number; texCoord?: number };
+  extensions?: Record<string, unknown>;
+}
+
+interface GLTFJson {
+  extensionsUsed?: string[];
+  nodes?: { name?: string; mesh?: number }[];
+  meshes?: { primitives: GLTFPrimitive[] }[];
+  materials?: GLTFMaterial[];
+  textures?: { sampler?: number; source: number }[];
+  images?: { bufferView: number; mimeType: string }[];
+  samplers?: {
+    magFilter: number;
+    minFilter: number;
+    wrapS: number;
+    wrapT: number;
+  }[];
+  bufferViews?: { buffer: number; byteOffset: number; byteLength: number }[];
+  buffers?: { byteLength: number; uri?: string }[];
+}
+
+/**
+ * Exports the scene of a progressive shadow map as GLB, with the baked UVs as
+ * `TEXCOORD_<uvChannel - 1>` (`TEXCOORD_1` by default) and the shadow map of
+ * every atlas page embedded as a PNG lightmap. Baked meshes are matched to
+ * their glTF nodes by name.
+ */
+export async function exportBakedGLB(
+  shadowMap: ProgressiveShadowMap,
+  {
+    fileName = "bake",
+    lightmapMode = "occlusion",
+    lightmapIntensity = 1,
+    shouldExportNode,
+  }: BakedGLBExportOptions = {}
+): Promise<Blob> {
+  const meshes = shadowMap.meshes;
+  if (meshes.length === 0) {
+    throw new Error(
+      "No meshes have been added to the progressive shadow map."
+    );
+  }
+
+  const meshPages = new Map<string, number>();
+  for (const mesh of meshes) {
+    if (meshPages.has(mesh.name)) {
+      console.warn(
+        `Several baked meshes are named ${mesh.name}, only the last one's lightmap page is exported.`
+      );
+    }
+    if (hasLightmapScaleOffset(mesh)) {
+      console.warn(
+        `Mesh ${mesh.name} shares its lightmap UVs with other instances, its per-instance lightmap scale and offset are not exported.`
+      );
+    }
+    meshPages.set(mesh.name, shadowMap.getMeshPage(mesh)!);
+  }
+
+  const data = await GLTF2Export.GLBAsync(meshes[0].getScene(), fileName, {
+    exportUnusedUVs: true,
+    ...(shouldExportNode && { shouldExportNode }),
+  });
+  const glb = data.files[`${fileName}.glb`];
+  if (!(glb instanceof Blob)) {
+    throw new Error("The glTF exporter did not produce a GLB file.");
+  }
+
+  const lightmaps = await Promise.all(
+    Array.from({ length: shadowMap.pageCount }, async (_, page) => {
+      const pixels = await readLightmapPixels(shadowMap.getShadowMap(page));
+      return encodePNG(toTopDownRows(pixels));
+    })
+  );
+
+  const result = injectGLBLightmaps(
+    await glb.arrayBuffer(),
+    lightmaps,
+    meshPages,
+    {
+      lightmapMode,
+      lightmapIntensity,
+      texCoord: shadowMap.options.uvChannel - 1,
+    }
+  );
+
+  return new Blob([result], { type: "model/gltf-binary" });
+}
+
+/**
+ * Embeds PNG lightmaps into a GLB file and attaches them to the materials of
+ * the nodes listed in `nodePages`, which maps node names to lightmap indices.
+ * Materials shared with other nodes or other lightmaps are duplicated.
+ */
+export function injectGLBLightmaps(
+  glb: ArrayBuffer,
+  lightmaps: ArrayBuffer[],
+  nodePages: Map<string, number>,
+  {
+    lightmapMode = "occlusion",
+    lightmapIntensity = 1,
+    texCoord = 1,
+  }: GLBLightmapOptions = {}
+): ArrayBuffer {
+  const { json, bin } = parseGLB(glb);
+
+  // Append the images to the binary chunk
+  const binChunks = [bin];
+  let binLength = bin.byteLength;
+  json.bufferViews ??= [];
+  json.images ??= [];
+  json.samplers ??= [];
+  json.textures ??= [];
+  if (!json.buffers || json.buffers.length === 0) {
+    json.buffers = [{ byteLength: 0 }];
+  }
+
+  const sampler =
+    json.samplers.push({
+      magFilter: GL_LINEAR,
+      minFilter: GL_LINEAR,
+      wrapS: GL_CLAMP_TO_EDGE,
+      wrapT: GL_CLAMP_TO_EDGE,
+    }) - 1;
+
+  const textures = lightmaps.map((png) => {
+    const padding = (4 - (binLength % 4)) % 4;
+    binChunks.push(new Uint8Array(padding), new Uint8Array(png));
+    binLength += padding;
+
+    json.bufferViews!.push({
+      buffer: 0,
+      byteOffset: binLength,
+      byteLength: png.byteLength,
+    });
+    binLength += png.byteLength;
+
+    json.images!.push({
+      bufferView: json.bufferViews!.length - 1,
+      mimeType: "image/png",
+    });
+    json.textures!.push({ sampler, source: json.images!.length - 1 });
+    return json.textures!.length - 1;
+  });
+  json.buffers[0].byteLength = binLength;
+
+  // Find which primitives get a lightmap, and which ones keep their material
+  const nodes = json.nodes ?? [];
+  const meshes = json.meshes ?? [];
+  const meshTextures = new Map<number, number>();
+  const unlitMaterials = new Set<number>();
+  for (const node of nodes) {
+    if (node.mesh === undefined) continue;
+
+    const page =
+      node.name !== undefined ? nodePages.get(node.name) : undefined;
+    if (page === undefined) {
+      for (const primitive of meshes[node.mesh].primitives) {
+        if (primitive.material !== undefined) {
+          unlitMaterials.add(primitive.material);
+        }
+      }
+      continue;
+    }
+
+    const texture = textures[page];
+    if (texture === undefined) {
+      throw new Error(`Lightmap ${page} of node ${node.name} is missing.`);
+    }
+    const meshTexture = meshTextures.get(node.mesh);
+    if (meshTexture !== undefined && meshTexture !== texture) {
+      console.warn(
+        `Node ${node.name} shares its mesh with a node on another lightmap, keeping the first lightmap.`
+      );
+      continue;
+    }
+    meshTextures.set(node.mesh, texture);
+  }
+
+  json.materials ??= [];
+  const litMaterials = new Map<string, number>();
+  const attachedMaterials = new Set<number>();
+  for (const [meshIndex, texture] of meshTextures) {
+    for (const primitive of meshes[meshIndex].primitives) {
+      if (primitive.attributes[`TEXCOORD_${texCoord}`] === undefined) {
+        console.warn(
+          `A primitive of mesh ${meshIndex} has no TEXCOORD_${texCoord}, skipping its lightmap.`
+        );
+        continue;
+      }
+
+      const key = `${primitive.material ?? "default"}:${texture}`;
+      let material = litMaterials.get(key);
+      if (material === undefined) {
+        const source = primitive.material;
+        const reuse =
+          source !== undefined &&
+          !unlitMaterials.has(source) &&
+          !attachedMaterials.has(source);
+        material = reuse
+          ? source!
+          : json.materials.push(
+              structuredClone(
+                source !== undefined ? json.materials[source] : {}
+              )
+            ) - 1;
+
+        attachLightmap(
+          json.materials[material],
+          texture,
+          texCoord,
+          lightmapMode,
+          lightmapIntensity
+        );
+        litMaterials.set(key, material);
+        if (source !== undefined) {
+          attachedMaterials.add(source);
+        }
+      }
+      primitive.material = material;
+    }
+  }
+
+  if (lightmapMode === "extension" && litMaterials.size > 0) {
+    json.extensionsUsed ??= [];
+    if (!json.extensionsUsed.includes(GLTF_LIGHTMAP_EXTENSION)) {
+      json.extensionsUsed.push(GLTF_LIGHTMAP_EXTENSION);
+    }
+  }
+
+  return writeGLB(json, concatChunks(binChunks, binLength));
+}
+
+function attachLightmap(
+  material: GLTFMaterial,
+  texture: number,
+  texCoord: number,
+  mode: GLTFLightmapMode,
+  intensity: number
+): void {
+  if (mode === "occlusion") {
+    material.occlusionTexture = { index: texture, texCoord };
+    return;
+  }
+
+  material.extensions ??= {};
+  material.extensions[GLTF_LIGHTMAP_EXTENSION] = {
+    index: texture,
+    texCoord,
+    intensity,
+  };
+}
+
+// glTF images start at v = 0, which is the GPU row order, while `encodePNG`
+// writes the rows bottom-up for Babylon's inverted Y
+function toTopDownRows({
+  width,
+  height,
+  data,
+}: LightmapPixels): LightmapPixels {
+  const flipped = new (data.constructor as
+    | Uint8ArrayConstructor
+    | Float32ArrayConstructor)(data.length);
+  const stride = width * 4;
+  for (let y = 0; y < height; y++) {
+    flipped.set(
+      data.subarray(y * stride, (y + 1) * stride),
+      (height - 1 - y) * stride
+    );
+  }
+  return { width, height, data: flipped };
+}
+
+function parseGLB(glb: ArrayBuffer): { json: GLTFJson; bin: Uint8Array } {
+  const view = new DataView(glb);
+  if (view.getUint32(0, true) !== GLB_MAGIC || view.getUint32(4, true) !== 2) {
+    throw new Error("Not a glTF 2.0 binary file.");
+  }
+
+  let json: GLTFJson | null = null;
+  let bin = new Uint8Array(0);
+  let offset = 12;
+  while (offset < view.getUint32(8, true)) {
+    const length = view.getUint32(offset, true);
+    const type = view.getUint32(offset + 4, true);
+    const data = new Uint8Array(glb, offset + 8, length);
+    if (type === GLB_CHUNK_JSON) {
+      json = JSON.parse(new TextDecoder().decode(data));
+    } else if (type === GLB_CHUNK_BIN) {
+      bin = data;
+    }
+    offset += 8 + length;
+  }
+
+  if (!json) {
+    throw new Error("GLB file has no JSON chunk.");
+  }
+  return { json, bin };
+}
+
+function writeGLB(json: GLTFJson, bin: Uint8Array): ArrayBuffer {
+  // Chunks are 4-byte aligned, JSON with spaces and binary data with zeros
+  let text = JSON.stringify(json);
+  text += " ".repeat((4 - (new TextEncoder().encode(text).length % 4)) % 4);
+  const jsonBytes = new TextEncoder().encode(text);
+  const binLength = Math.ceil(bin.byteLength / 4) * 4;
+
+  const length = 12 + 8 + jsonBytes.byteLength + 8 + binLength;
+  const output = new Uint8Array(length);
+  const view = new DataView(output.buffer);
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, length, true);
+
+  view.setUint32(12, jsonBytes.byteLength, true);
+  view.setUint32(16, GLB_CHUNK_JSON, true);
+  output.set(jsonBytes, 20);
+
+  const binOffset = 20 + jsonBytes.byteLength;
+  view.setUint32(binOffset, binLength, true);
+  view.setUint32(binOffset + 4, GLB_CHUNK_BIN, true);
+  output.set(bin, binOffset + 8);
+
+  return output.buffer;
+}
+
+function concatChunks(chunks: Uint8Array[], length: number): Uint8Array {
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return result;
+}
@@ -0,0 +1,168 @@
+import * as BABYLON from "@babylonjs/core";
+import { ProgressiveShadowMap } from "./progressiveShadowMap";
+import type {
+  BakeProgress,
+  HeadlessBakeSettings,
+  LightmapExportFormat,
+} from "./types";
+
+export const DEFAULT_HEADLESS_BAKE_SETTINGS: Required<HeadlessBakeSettings> = {
+  options: {},
+  meshes: null,
+  lights: null,
+  formats: ["png"],
+  render: null,
+};
+
+export const HEADLESS_MANIFEST_FILE = "manifest.json";
+
+const BINARY_SCENE_EXTENSIONS = [".glb"];
+
+/** Output file of a headless bake, named relative to the output directory. */
+export interface HeadlessBakeFile {
+  name: string;
+  data: ArrayBuffer | string;
+}
+
+export interface HeadlessBakeResult {
+  shadowMap: ProgressiveShadowMap;
+  /** The bake manifest, followed by the pages in every requested format. */
+  files: HeadlessBakeFile[];
+  /** Whether the lights were baked, see `HeadlessBakeSettings.render`. */
+  rendered: boolean;
+}
+
+export function getHeadlessPageFileName(
+  pageIndex: number,
+  format: LightmapExportFormat
+): string {
+  return `lightmap_${pageIndex}.${format}`;
+}
+
+/**
+ * Creates an engine rendering to a WebGL context that doesn't belong to a
+ * canvas, e.g. one created by the `gl` package under Node. Without a context,
+ * returns a `NullEngine`, which runs everything but the rendering.
+ */
+export function createHeadlessEngine(
+  context: WebGLRenderingContext | WebGL2RenderingContext | null = null
+): BABYLON.AbstractEngine {
+  if (!context) {
+    return new BABYLON.NullEngine();
+  }
+
+  return new BABYLON.Engine(context, false, {
+    preserveDrawingBuffer: true,
+    doNotHandleContextLost: true,
+    audioEngine: false,
+  });
+}
+
+/**
+ * Loads a scene from the contents of a self-contained scene file, as nothing
+ * can be fetched without a browser. The loader is picked from the extension
+ * of `fileName`, glTF files require the glTF loader of `@babylonjs/loaders`
+ * to be registered.
+ */
+export async function loadHeadlessScene(
+  engine: BABYLON.AbstractEngine,
+  data: ArrayBufferView,
+  fileName: string
+): Promise<BABYLON.Scene> {
+  const extension = fileName.slice(fileName.lastIndexOf(".")).toLowerCase();
+  // Text formats are only loaded from strings
+  const source = BINARY_SCENE_EXTENSIONS.includes(extension)
+    ? data
+    : `data:${new TextDecoder().decode(data)}`;
+  const scene = await BABYLON.LoadSceneAsync(source, engine, {
+    pluginExtension: extension,
+    name: fileName,
+  });
+
+  // Bakes advance on every rendered frame, which requires a camera
+  if (!scene.activeCamera) {
+    new BABYLON.FreeCamera("headlessCamera", BABYLON.Vector3.Zero(), scene);
+  }
+  return scene;
+}
+
+/**
+ * Bakes the lights of a scene into the shadow maps of its meshes, without a
+ * canvas, and returns the files to write: the bake manifest and the shadow
+ * map of every page. The render loop of the scene's engine is run until the
+ * bake completes.
+ */
+export async function runHeadlessBake(
+  scene: BABYLON.Scene,
+  settings: HeadlessBakeSettings = {},
+  onProgress?: (progress: BakeProgress) => void
+): Promise<HeadlessBakeResult> {
+  const { options, meshes, lights, formats, render } = {
+    ...DEFAULT_HEADLESS_BAKE_SETTINGS,
+    ...settings,
+  };
+  const engine = scene.getEngine();
+
+  const bakedLights = scene.lights.filter(
+    (light): light is BABYLON.ShadowLight =>
+      light instanceof BABYLON.ShadowLight &&
+      (!lights || lights.includes(light.name))
+  );
+  if (bakedLights.length === 0) {
+    throw new Error("No shadow lights to bake found in the scene.");
+  }
+
+  const bakedMeshes = scene.meshes.filter(
+    (mesh) =>
+      mesh.getTotalVertices() > 0 && (!meshes || meshes.includes(mesh.name))
+  );
+  if (bakedMeshes.length === 0) {
+    throw new Error("No meshes to bake found in the scene.");
+  }
+
+  const [light, ...otherLights] = bakedLights;
+  const shadowMap = new ProgressiveShadowMap(scene, light, options);
+  otherLights.forEach((other) => shadowMap.addLight(other));
+  shadowMap.addMeshes(bakedMeshes);
+
+  const rendered = render ?? !(engine instanceof BABYLON.NullEngine);
+  if (rendered) {
+    const renderLoop = () => scene.render();
+    engine.runRenderLoop(renderLoop);
+    try {
+      const job = shadowMap.render();
+      if (onProgress) {
+        job.onProgressObservable.add(onProgress);
+      }
+      await job;
+    } finally {
+      engine.stopRenderLoop(renderLoop);
+    }
+  }
+
+  // Pages are embedded unless they are written as PNG files, or not baked
+  const manifest = await shadowMap.createBakeManifest({
+    pageImageUrl: !rendered
+      ? () => null
+      : formats.includes("png")
+        ? (pageIndex) => getHeadlessPageFileName(pageIndex, "png")
+        : null,
+  });
+  const files: HeadlessBakeFile[] = [
+    { name: HEADLESS_MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) },
+  ];
+
+  if (rendered) {
+    for (let page = 0; page < shadowMap.pageCount; page++) {
+      for (const format of formats) {
+        const blob = await shadowMap.exportShadowMap(format, page);
+        files.push({
+          name: getHeadlessPageFileName(page, format),
+          data: await blob.arrayBuffer(),
+        });
+      }
+    }
+  }
+
+  return { shadowMap, files, rendered };
+}
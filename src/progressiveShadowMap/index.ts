@@ -0,0 +1,191 @@
+export { ProgressiveShadowMap } from "./progressiveShadowMap";
+export { ProgressiveShadowMapMaterialPlugin } from "./progressiveShadowMapMaterialPlugin";
+export { getProgressiveShadowMapCode } from "./progressiveShadowMapShaders";
+export {
+  AmbientOcclusionSampler,
+  DEFAULT_AMBIENT_OCCLUSION_OPTIONS,
+} from "./ambientOcclusion";
+export type { OcclusionSample } from "./ambientOcclusion";
+export { AtlasGuides } from "./atlasGuides";
+export {
+  estimateTexelsPerUnit,
+  getChartArea,
+  packAtlas,
+  packAtlasPages,
+  packSharedCharts,
+  writeChartUVs,
+} from "./atlasPacker";
+export { BakeJob } from "./bakeJob";
+export type { BakeJobHooks } from "./bakeJob";
+export {
+  applyBakeManifest,
+  arrayBufferToDataUrl,
+  BAKE_MANIFEST_VERSION,
+  computeGeometryHash,
+} from "./bakeManifest";
+export type { AppliedBakeManifest } from "./bakeManifest";
+export {
+  exportBakedGLB,
+  GLTF_LIGHTMAP_EXTENSION,
+  injectGLBLightmaps,
+} from "./gltfExport";
+export type { GLBLightmapOptions } from "./gltfExport";
+export { captureGeometry, restoreGeometry } from "./geometrySnapshots";
+export type { GeometrySnapshot } from "./geometrySnapshots";
+export {
+  createHeadlessEngine,
+  DEFAULT_HEADLESS_BAKE_SETTINGS,
+  getHeadlessPageFileName,
+  HEADLESS_MANIFEST_FILE,
+  loadHeadlessScene,
+  runHeadlessBake,
+} from "./headlessBake";
+export type { HeadlessBakeFile, HeadlessBakeResult } from "./headlessBake";
+export {
+  encodeEXR,
+  encodeHDR,
+  encodeKTX2,
+  encodeLightmap,
+  encodePNG,
+  LIGHTMAP_MIME_TYPES,
+  readLightmapPixels,
+  resolveLightmapPrecision,
+} from "./lightmapExport";
+export {
+  createBounceRadianceMaterial,
+  DEFAULT_IRRADIANCE_OPTIONS,
+} from "./irradianceBounces";
+export {
+  ATLAS_UV_DECLARATION,
+  ATLAS_UV_DECLARATION_WGSL,
+  createInstanceCharts,
+  createSharedLightmapCharts,
+  getLightmapInstanceScales,
+  getLightmapRenderingMesh,
+  getMatrixScale,
+  hasLightmapScaleOffset,
+  isLightmapMeshReady,
+  LIGHTMAP_SCALE_OFFSET_KIND,
+  placeLightmapInstances,
+  removeLightmapScaleOffsets,
+  setLightmapScaleOffsets,
+  sharesLightmapGeometry,
+  usesInstancedRendering,
+} from "./lightmapInstances";
+export type { SharedLightmapCharts } from "./lightmapInstances";
+export {
+  enableLightmapScaleOffset,
+  LightmapScaleOffsetMaterialPlugin,
+} from "./lightmapScaleOffsetMaterialPlugin";
+export { unwrapLightmapCharts } from "./lightmapUnwrapper";
+export type { LightmapUnwrapResult } from "./lightmapUnwrapper";
+export {
+  sampleCone,
+  sampleCosineHemisphere,
+  sampleRectangle,
+  sampleSphere,
+} from "./lightSampling";
+export {
+  bindMaterialAmbientOcclusion,
+  bindMaterialLightmap,
+  DEFAULT_NODE_AMBIENT_OCCLUSION_BLOCK,
+  DEFAULT_NODE_LIGHTMAP_BLOCK,
+} from "./materialLightmaps";
+export type { MaterialLightmapBinding } from "./materialLightmaps";
+export { potpack } from "./potpack";
+export {
+  createRandom,
+  createSampleSequence,
+  radicalInverse,
+} from "./sampleSequences";
+export {
+  findLightmapSeams,
+  stitchLightmapSeams,
+  transformLightmapSeams,
+} from "./seamStitching";
+export {
+  addCutoutShaderOptions,
+  bindCasterCutout,
+  getCasterCutout,
+  getCutoutShaderCode,
+  prepareShadowGenerator,
+} from "./shadowCasters";
+export type { CasterCutout, CutoutShaderCode } from "./shadowCasters";
+export {
+  DEFAULT_DENOISE_OPTIONS,
+  getBlurFragmentShader,
+  ShadowMapDenoiser,
+} from "./shadowMapDenoiser";
+export { getDilateFragmentShader, ShadowMapDilator } from "./shadowMapDilator";
+export {
+  getTransmissionShadowGenerator,
+  isTransmissionCaster,
+  ShadowTransmissionMap,
+} from "./shadowTransmission";
+export {
+  boundsIntersect,
+  computeOcclusionBounds,
+  computeShadowBounds,
+  getWorldBounds,
+} from "./shadowVolumes";
+export {
+  deepCloneTexture,
+  getCopyFragmentShader,
+  getEffectShaderLanguage,
+  getSupportedTexturePrecision,
+  getTextureType,
+  TextureCopier,
+} from "./textureUtils";
+export { TimeOfDayLightmapMaterialPlugin } from "./timeOfDayLightmapMaterialPlugin";
+export { getKeyframeBlend, TimeOfDayLightmaps } from "./timeOfDayLightmaps";
+export {
+  applyVertexRemap,
+  computeSurfaceArea,
+  computeUVBox,
+  createUV1Chart,
+  getSubMeshRanges,
+  getUVKind,
+  getWorldPositions,
+  setSubMeshRanges,
+} from "./uvUtils";
+export type { SubMeshRange } from "./uvUtils";
+export type {
+  AmbientOcclusionOptions,
+  AreaLightShape,
+  AtlasLayout,
+  AtlasPackingOptions,
+  AtlasPackingResult,
+  AtlasPage,
+  BakedGLBExportOptions,
+  BakeJobState,
+  BakeLightOptions,
+  BakeManifest,
+  BakeManifestMesh,
+  BakeManifestOptions,
+  BakeManifestPage,
+  BakeManifestSettings,
+  BakeMode,
+  BakeProgress,
+  BakeRenderOptions,
+  BlendMode,
+  Bounds,
+  Box,
+  DenoiseOptions,
+  GLTFLightmapMode,
+  HeadlessBakeSettings,
+  IrradianceOptions,
+  KeyframeBakeOptions,
+  LightmapChart,
+  LightmapExportFormat,
+  LightmapKeyframe,
+  LightmapPixels,
+  LightmapUnwrapOptions,
+  ProgressiveShadowMapOptions,
+  SampleSequence,
+  SampleSequenceType,
+  ShadowMapPostProcessOptions,
+  TexturePrecision,
+  TimeOfDayKeyframe,
+  TimeOfDayLightmapsOptions,
+  UV2GenerationMode,
+} from "./types";
@@ -0,0 +1,134 @@
+import * as BABYLON from "@babylonjs/core";
+import {
+  ATLAS_UV_DECLARATION,
+  LIGHTMAP_SCALE_OFFSET_KIND,
+} from "./lightmapInstances";
+import {
+  addCutoutShaderOptions,
+  bindCasterCutout,
+  getCutoutShaderCode,
+} from "./shadowCasters";
+import type { CasterCutout, CutoutShaderCode } from "./shadowCasters";
+import type { IrradianceOptions } from "./types";
+import { getUVKind } from "./uvUtils";
+
+export const DEFAULT_IRRADIANCE_OPTIONS: Required<IrradianceOptions> = {
+  bounces: 1,
+  samples: null,
+  bias: null,
+  depthResolution: 1024,
+};
+
+const radianceVertexShader = (
+  uvAttribute: string | null,
+  cutout: CutoutShaderCode
+) => `
+  precision highp float;
+  attribute vec3 position;
+  attribute vec3 normal;
+  ${uvAttribute ? `attribute vec2 ${uvAttribute};` : ""}
+  #include<instancesDeclaration>
+  uniform mat4 occlusionViewProjection;
+  uniform vec3 occlusionEye;
+  uniform vec3 occlusionViewDirection;
+  varying float vDistance;
+  varying vec3 vNormal;
+  varying vec2 vSourceUV;
+  ${ATLAS_UV_DECLARATION}
+  ${cutout.vertexDefinitions}
+
+  void main() {
+    #include<instancesVertex>
+    vec4 worldPosition = finalWorld * vec4(position, 1.0);
+    vDistance = dot(worldPosition.xyz - occlusionEye, occlusionViewDirection);
+    vNormal = mat3(finalWorld) * normal;
+    vSourceUV = ${uvAttribute ? `toAtlasUV(${uvAttribute})` : "vec2(0.0)"};
+    ${cutout.vertexMain}
+    gl_Position = occlusionViewProjection * worldPosition;
+  }
+`;
+
+// Surfaces facing away from the eye are skipped, so that the maps hold the
+// first surface a ray towards the eye meets
+const radianceFragmentShader = (cutout: CutoutShaderCode) => `
+  precision highp float;
+  uniform vec3 occlusionViewDirection;
+  varying float vDistance;
+  varying vec3 vNormal;
+  varying vec2 vSourceUV;
+  #ifdef SOURCE
+    uniform sampler2D source;
+  #endif
+  ${cutout.fragmentDefinitions}
+
+  void main() {
+    if (dot(vNormal, occlusionViewDirection) >= 0.0) discard;
+    ${cutout.fragmentMain}
+
+    #ifdef SOURCE
+      gl_FragColor = vec4(texture2D(source, vSourceUV).rgb, vDistance);
+    #else
+      gl_FragColor = vec4(0.0, 0.0, 0.0, vDistance);
+    #endif
+  }
+`;
+
+/**
+ * Material rendering a mesh into the depth maps of an
+ * `AmbientOcclusionSampler` along with the light it reflects, read from the
+ * `source` lightmap at `uvChannel`. Meshes without a lightmap pass `null`
+ * and only block the light, and meshes sharing their lightmap UVs with other
+ * instances need `scaleOffset`, see `setLightmapScaleOffsets`. Alpha tested
+ * meshes pass their `cutout`, see `getCasterCutout`.
+ */
+export function createBounceRadianceMaterial(
+  scene: BABYLON.Scene,
+  uvChannel: number,
+  source: BABYLON.BaseTexture | null,
+  scaleOffset: boolean = false,
+  cutout: CasterCutout | null = null
+): BABYLON.ShaderMaterial {
+  const uvAttribute = source ? getUVKind(uvChannel) : null;
+  const attributes = ["position", "normal"];
+  const defines: string[] = [];
+  if (uvAttribute) {
+    attributes.push(uvAttribute);
+    defines.push("#define SOURCE");
+  }
+  if (uvAttribute && scaleOffset) {
+    attributes.push(LIGHTMAP_SCALE_OFFSET_KIND);
+    defines.push("#define LIGHTMAP_SCALE_OFFSET");
+  }
+
+  // Before the cutout UVs join the attributes the shader declares
+  const code = getCutoutShaderCode(cutout, attributes);
+  const options: Partial<BABYLON.IShaderMaterialOptions> = {
+    attributes,
+    uniforms: [
+      "world",
+      "occlusionViewProjection",
+      "occlusionEye",
+      "occlusionViewDirection",
+    ],
+    samplers: source ? ["source"] : [],
+    defines,
+  };
+  addCutoutShaderOptions(options, cutout);
+
+  const material = new BABYLON.ShaderMaterial(
+    source ? `bounceRadiance_${source.name}` : "bounceRadiance",
+    scene,
+    {
+      vertexSource: radianceVertexShader(uvAttribute, code),
+      fragmentSource: radianceFragmentShader(code),
+    },
+    options
+  );
+  material.backFaceCulling = false; // Facing is tested per fragment
+  if (source) {
+    material.setTexture("source", source);
+  }
+  bindCasterCutout(material, cutout);
+
+  return material;
+}
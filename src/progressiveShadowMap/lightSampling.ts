@@ -0,0 +1,103 @@
+import * as BABYLON from "@babylonjs/core";
+
+/**
+ * Maps a point of the unit square to a uniformly distributed point on the
+ * unit sphere.
+ */
+export function sampleSphere(
+  u1: number,
+  u2: number,
+  result: BABYLON.Vector3
+): BABYLON.Vector3 {
+  const z = 1 - 2 * u1;
+  const r = Math.sqrt(Math.max(0, 1 - z * z));
+  const phi = 2 * Math.PI * u2;
+
+  return result.copyFromFloats(r * Math.cos(phi), r * Math.sin(phi), z);
+}
+
+/**
+ * Maps a point of the unit square to a cosine weighted direction in the
+ * hemisphere around `axis`.
+ */
+export function sampleCosineHemisphere(
+  u1: number,
+  u2: number,
+  axis: BABYLON.Vector3,
+  result: BABYLON.Vector3
+): BABYLON.Vector3 {
+  const r = Math.sqrt(u1);
+  const phi = 2 * Math.PI * u2;
+  const { tangent, bitangent } = orthonormalBasis(axis);
+
+  const x = r * Math.cos(phi);
+  const y = r * Math.sin(phi);
+  const z = Math.sqrt(Math.max(0, 1 - u1));
+
+  return result.copyFromFloats(
+    tangent.x * x + bitangent.x * y + axis.x * z,
+    tangent.y * x + bitangent.y * y + axis.y * z,
+    tangent.z * x + bitangent.z * y + axis.z * z
+  );
+}
+
+/**
+ * Maps a point of the unit square to a uniformly distributed direction inside
+ * the cone around `axis` whose half-angle has the cosine `cosMaxAngle`.
+ */
+export function sampleCone(
+  u1: number,
+  u2: number,
+  axis: BABYLON.Vector3,
+  cosMaxAngle: number,
+  result: BABYLON.Vector3
+): BABYLON.Vector3 {
+  const cosTheta = 1 - u1 * (1 - cosMaxAngle);
+  const sinTheta = Math.sqrt(Math.max(0, 1 - cosTheta * cosTheta));
+  const phi = 2 * Math.PI * u2;
+  const { tangent, bitangent } = orthonormalBasis(axis);
+
+  const x = sinTheta * Math.cos(phi);
+  const y = sinTheta * Math.sin(phi);
+
+  return result.copyFromFloats(
+    tangent.x * x + bitangent.x * y + axis.x * cosTheta,
+    tangent.y * x + bitangent.y * y + axis.y * cosTheta,
+    tangent.z * x + bitangent.z * y + axis.z * cosTheta
+  );
+}
+
+/**
+ * Maps a point of the unit square to an offset on a `width` x `height`
+ * rectangle centred on the origin and facing `normal`.
+ */
+export function sampleRectangle(
+  u1: number,
+  u2: number,
+  width: number,
+  height: number,
+  normal: BABYLON.Vector3,
+  result: BABYLON.Vector3
+): BABYLON.Vector3 {
+  const { tangent, bitangent } = orthonormalBasis(normal);
+  const x = (u1 - 0.5) * width;
+  const y = (u2 - 0.5) * height;
+
+  return result.copyFromFloats(
+    tangent.x * x + bitangent.x * y,
+    tangent.y * x + bitangent.y * y,
+    tangent.z * x + bitangent.z * y
+  );
+}
+
+function orthonormalBasis(axis: BABYLON.Vector3): {
+  tangent: BABYLON.Vector3;
+  bitangent: BABYLON.Vector3;
+} {
+  const reference =
+    Math.abs(axis.y) < 0.99 ? BABYLON.Vector3.Up() : BABYLON.Vector3.Right();
+  const tangent = BABYLON.Vector3.Cross(reference, axis).normalize();
+  const bitangent = BABYLON.Vector3.Cross(axis, tangent).normalize();
+
+  return { tangent, bitangent };
+}
@@ -0,0 +1,522 @@
+import type * as BABYLON from "@babylonjs/core";
+import type {
+  LightmapExportFormat,
+  LightmapPixels,
+  TexturePrecision,
+} from "./types";
+
+export const LIGHTMAP_MIME_TYPES: Record<LightmapExportFormat, string> = {
+  png: "image/png",
+  hdr: "image/vnd.radiance",
+  exr: "image/x-exr",
+  ktx2: "image/ktx2",
+};
+
+/**
+ * Reads back the RGBA contents of a texture. Float and half float targets are
+ * returned as a `Float32Array`, everything else as a `Uint8Array`. Rows are in
+ * GPU order, starting at v = 0, on every engine.
+ */
+export async function readLightmapPixels(
+  texture: BABYLON.BaseTexture
+): Promise<LightmapPixels> {
+  const { width, height } = texture.getSize();
+  const pixels = await texture.readPixels();
+  const length = width * height * 4;
+  const bytesPerValue = pixels instanceof Float32Array ? 4 : 1;
+  if (!pixels || pixels.byteLength < length * bytesPerValue) {
+    throw new Error(`Unable to read back the pixels of ${texture.name}.`);
+  }
+
+  // The read buffer may be larger than the texture
+  const data =
+    pixels instanceof Float32Array
+      ? pixels.subarray(0, length)
+      : new Uint8Array(pixels.buffer, pixels.byteOffset, length);
+
+  return { width, height, data };
+}
+
+/**
+ * Converts pixels to the precision of another texture type. `byte` clamps and
+ * quantizes to a `Uint8Array`, `halfFloat` rounds to the nearest half float
+ * and `float` keeps the values, both returning a `Float32Array`. Byte and
+ * float pixels requested in their own precision are returned as is.
+ */
+export function resolveLightmapPrecision(
+  pixels: LightmapPixels,
+  precision: TexturePrecision
+): LightmapPixels {
+  const { width, height, data } = pixels;
+  switch (precision) {
+    case "byte": {
+      if (data instanceof Uint8Array) {
+        return pixels;
+      }
+      const bytes = new Uint8Array(data.length);
+      for (let i = 0; i < data.length; i++) {
+        bytes[i] = toByte(data, i);
+      }
+      return { width, height, data: bytes };
+    }
+    case "halfFloat":
+    case "float": {
+      if (data instanceof Float32Array && precision === "float") {
+        return pixels;
+      }
+      const floats = new Float32Array(data.length);
+      for (let i = 0; i < data.length; i++) {
+        const value = toFloat(data, i);
+        floats[i] = precision === "halfFloat" ? toHalfFloat(value) : value;
+      }
+      return { width, height, data: floats };
+    }
+  }
+}
+
+/**
+ * Encodes RGBA lightmap pixels into an image file. PNG is always 8-bit, HDR and
+ * EXR keep float precision, and KTX2 stores the pixels uncompressed in their
+ * original precision.
+ */
+export async function encodeLightmap(
+  pixels: LightmapPixels,
+  format: LightmapExportFormat
+): Promise<ArrayBuffer> {
+  switch (format) {
+    case "png":
+      return encodePNG(pixels);
+    case "hdr":
+      return encodeHDR(pixels);
+    case "exr":
+      return encodeEXR(pixels);
+    case "ktx2":
+      return encodeKTX2(pixels);
+  }
+}
+
+export async function encodePNG({
+  width,
+  height,
+  data,
+}: LightmapPixels): Promise<ArrayBuffer> {
+  // Every scanline starts with its filter type, 0 (none)
+  const stride = width * 4;
+  const scanlines = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const sourceRow = (height - 1 - y) * stride;
+    const row = y * (stride + 1) + 1;
+    for (let i = 0; i < stride; i++) {
+      scanlines[row + i] = toByte(data, sourceRow + i);
+    }
+  }
+
+  const header = new ByteWriter(13);
+  header.uint32(width);
+  header.uint32(height);
+  header.uint8(8); // Bit depth
+  header.uint8(6); // Color type RGBA
+  header.uint8(0); // Compression
+  header.uint8(0); // Filter
+  header.uint8(0); // Interlace
+
+  const chunks = [
+    pngChunk("IHDR", header.bytes()),
+    pngChunk("IDAT", await zlibCompress(scanlines)),
+    pngChunk("IEND", new Uint8Array(0)),
+  ];
+
+  const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  return concatBytes([new Uint8Array(signature), ...chunks]).buffer;
+}
+
+/**
+ * Radiance RGBE image with flat (non run-length encoded) scanlines.
+ */
+export function encodeHDR({
+  width,
+  height,
+  data,
+}: LightmapPixels): ArrayBuffer {
+  const header = new TextEncoder().encode(
+    `#?RADIANCE\nFORMAT=32-bit_rle_rgbe\n\n-Y ${height} +X ${width}\n`
+  );
+
+  const body = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const sourceRow = (height - 1 - y) * width * 4;
+    for (let x = 0; x < width; x++) {
+      const source = sourceRow + x * 4;
+      const r = toFloat(data, source);
+      const g = toFloat(data, source + 1);
+      const b = toFloat(data, source + 2);
+      const max = Math.max(r, g, b);
+      const target = (y * width + x) * 4;
+
+      if (max < 1e-32) continue;
+
+      // Same as frexp, the mantissa of max ends up in [0.5, 1)
+      const exponent = Math.floor(Math.log2(max)) + 1;
+      const scale = 256 / Math.pow(2, exponent);
+      body[target] = Math.min(255, Math.max(0, Math.floor(r * scale)));
+      body[target + 1] = Math.min(255, Math.max(0, Math.floor(g * scale)));
+      body[target + 2] = Math.min(255, Math.max(0, Math.floor(b * scale)));
+      body[target + 3] = exponent + 128;
+    }
+  }
+
+  return concatBytes([header, body]).buffer;
+}
+
+/**
+ * Single part scanline OpenEXR image with uncompressed 32-bit float channels.
+ */
+export function encodeEXR({
+  width,
+  height,
+  data,
+}: LightmapPixels): ArrayBuffer {
+  // Channels are stored in alphabetical order
+  const channels: [string, number][] = [
+    ["A", 3],
+    ["B", 2],
+    ["G", 1],
+    ["R", 0],
+  ];
+
+  const header = new ByteWriter(512);
+  header.int32(20000630); // Magic number
+  header.int32(2); // Version, single part scanline
+
+  header.attribute("channels", "chlist", () => {
+    for (const [name] of channels) {
+      header.string(name);
+      header.int32(2); // FLOAT
+      header.uint8(0); // pLinear
+      header.uint8(0);
+      header.uint8(0);
+      header.uint8(0);
+      header.int32(1); // xSampling
+      header.int32(1); // ySampling
+    }
+    header.uint8(0);
+  });
+  header.attribute("compression", "compression", () => header.uint8(0));
+  header.attribute("dataWindow", "box2i", () => {
+    header.int32(0);
+    header.int32(0);
+    header.int32(width - 1);
+    header.int32(height - 1);
+  });
+  header.attribute("displayWindow", "box2i", () => {
+    header.int32(0);
+    header.int32(0);
+    header.int32(width - 1);
+    header.int32(height - 1);
+  });
+  header.attribute("lineOrder", "lineOrder", () => header.uint8(0));
+  header.attribute("pixelAspectRatio", "float", () => header.float32(1));
+  header.attribute("screenWindowCenter", "v2f", () => {
+    header.float32(0);
+    header.float32(0);
+  });
+  header.attribute("screenWindowWidth", "float", () => header.float32(1));
+  header.uint8(0);
+
+  const headerBytes = header.bytes();
+  const lineSize = width * channels.length * 4;
+  const blockSize = 8 + lineSize;
+  const offsetTableSize = height * 8;
+
+  const body = new ByteWriter(offsetTableSize + blockSize * height);
+  for (let y = 0; y < height; y++) {
+    body.uint64(headerBytes.length + offsetTableSize + y * blockSize, true);
+  }
+  for (let y = 0; y < height; y++) {
+    const sourceRow = (height - 1 - y) * width * 4;
+    body.int32(y);
+    body.int32(lineSize);
+    for (const [, component] of channels) {
+      for (let x = 0; x < width; x++) {
+        body.float32(toFloat(data, sourceRow + x * 4 + component));
+      }
+    }
+  }
+
+  return concatBytes([headerBytes, body.bytes()]).buffer;
+}
+
+/**
+ * KTX2 container with a single uncompressed RGBA level, in GPU row order.
+ * Byte pixels use VK_FORMAT_R8G8B8A8_UNORM, float pixels
+ * VK_FORMAT_R32G32B32A32_SFLOAT.
+ */
+export function encodeKTX2({
+  width,
+  height,
+  data,
+}: LightmapPixels): ArrayBuffer {
+  const isFloat = data instanceof Float32Array;
+  const typeSize = isFloat ? 4 : 1;
+  const texelSize = typeSize * 4;
+
+  // Data format descriptor with a basic block describing 4 RGBA samples
+  const dfd = new ByteWriter(4 + 24 + 16 * 4);
+  dfd.uint32(4 + 24 + 16 * 4, true);
+  dfd.uint32(0, true); // Vendor and descriptor type
+  dfd.uint32(2 | ((24 + 16 * 4) << 16), true); // Version and block size
+  dfd.uint8(1); // Color model RGBSDA
+  dfd.uint8(1); // Primaries BT.709
+  dfd.uint8(1); // Linear transfer function
+  dfd.uint8(0); // Straight alpha
+  dfd.uint32(0, true); // Texel block dimensions 1x1x1x1
+  dfd.uint32(texelSize, true); // Bytes in plane 0
+  dfd.uint32(0, true);
+  [0, 1, 2, 15].forEach((channelId, index) => {
+    const qualifiers = isFloat ? 0xc0 : 0; // Signed float
+    dfd.uint32(
+      ((index * typeSize * 8) & 0xffff) |
+        ((typeSize * 8 - 1) << 16) |
+        ((channelId | qualifiers) << 24),
+      true
+    );
+    dfd.uint32(0, true); // Sample position
+    dfd.uint32(isFloat ? 0xbf800000 : 0, true); // Lower
+    dfd.uint32(isFloat ? 0x3f800000 : 255, true); // Upper
+  });
+  const dfdBytes = dfd.bytes();
+
+  const headerSize = 12 + 13 * 4 + 2 * 8 + 3 * 8;
+  const dfdOffset = headerSize;
+  const levelOffset = align(dfdOffset + dfdBytes.length, 16);
+
+  const levelData = isFloat
+    ? new Uint8Array(data.buffer, data.byteOffset, width * height * texelSize)
+    : new Uint8Array(data.buffer, data.byteOffset, width * height * 4);
+
+  const header = new ByteWriter(levelOffset);
+  [0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a]
+    .forEach((byte) => header.uint8(byte));
+  header.uint32(isFloat ? 109 : 37, true); // vkFormat
+  header.uint32(typeSize, true);
+  header.uint32(width, true);
+  header.uint32(height, true);
+  header.uint32(0, true); // Depth
+  header.uint32(0, true); // Layers
+  header.uint32(1, true); // Faces
+  header.uint32(1, true); // Levels
+  header.uint32(0, true); // Supercompression scheme
+  header.uint32(dfdOffset, true);
+  header.uint32(dfdBytes.length, true);
+  header.uint32(0, true); // Key/value data offset
+  header.uint32(0, true); // Key/value data length
+  header.uint64(0, true); // Supercompression global data offset
+  header.uint64(0, true); // Supercompression global data length
+  header.uint64(levelOffset, true);
+  header.uint64(levelData.byteLength, true);
+  header.uint64(levelData.byteLength, true);
+
+  const out = new Uint8Array(levelOffset + levelData.byteLength);
+  out.set(header.bytes(), 0);
+  out.set(dfdBytes, dfdOffset);
+  out.set(levelData, levelOffset);
+  return out.buffer;
+}
+
+function toByte(data: Uint8Array | Float32Array, index: number): number {
+  if (data instanceof Uint8Array) {
+    return data[index];
+  }
+  return Math.round(Math.min(1, Math.max(0, data[index])) * 255);
+}
+
+function toFloat(data: Uint8Array | Float32Array, index: number): number {
+  return data instanceof Uint8Array ? data[index] / 255 : data[index];
+}
+
+// Rounds to the nearest value a 16-bit float can hold
+function toHalfFloat(value: number): number {
+  const magnitude = Math.abs(value);
+  if (magnitude === 0 || !Number.isFinite(magnitude)) {
+    return value;
+  }
+  // 10 mantissa bits, subnormals below 2^-14
+  const exponent = Math.max(Math.floor(Math.log2(magnitude)), -14);
+  const step = 2 ** (exponent - 10);
+  const rounded = Math.min(Math.round(magnitude / step) * step, 65504);
+  return Math.sign(value) * rounded;
+}
+
+function align(value: number, alignment: number): number {
+  return Math.ceil(value / alignment) * alignment;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const length = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new ByteWriter(12 + data.length);
+  chunk.uint32(data.length);
+  chunk.string(type, false);
+  chunk.raw(data);
+  chunk.uint32(crc32(chunk.bytes().subarray(4, 8 + data.length)));
+  return chunk.bytes();
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Compresses bytes into a zlib stream, using `CompressionStream` where the
+ * platform has it and uncompressed deflate blocks otherwise.
+ */
+async function zlibCompress(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  if (typeof CompressionStream !== "undefined") {
+    const stream = new Blob([data])
+      .stream()
+      .pipeThrough(new CompressionStream("deflate"));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  const maxBlockSize = 0xffff;
+  const blockCount = Math.max(1, Math.ceil(data.length / maxBlockSize));
+  const out = new ByteWriter(2 + blockCount * 5 + data.length + 4);
+  out.uint8(0x78);
+  out.uint8(0x01);
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * maxBlockSize;
+    const end = Math.min(start + maxBlockSize, data.length);
+    out.uint8(block === blockCount - 1 ? 1 : 0);
+    out.uint16(end - start, true);
+    out.uint16(~(end - start) & 0xffff, true);
+    out.raw(data.subarray(start, end));
+  }
+
+  let a = 1,
+    b = 0;
+  for (let i = 0; i < data.length; i++) {
+    a = (a + data[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  out.uint32(((b << 16) | a) >>> 0);
+
+  return out.bytes();
+}
+
+/**
+ * Growable binary writer. Multi-byte values are big endian unless
+ * `littleEndian` is set, except where the format dictates otherwise.
+ */
+class ByteWriter {
+  private _buffer: Uint8Array<ArrayBuffer>;
+  private _view: DataView;
+  private _length: number = 0;
+
+  constructor(capacity: number) {
+    this._buffer = new Uint8Array(Math.max(16, capacity));
+    this._view = new DataView(this._buffer.buffer);
+  }
+
+  bytes(): Uint8Array<ArrayBuffer> {
+    return this._buffer.subarray(0, this._length);
+  }
+
+  uint8(value: number): void {
+    this._reserve(1);
+    this._view.setUint8(this._length, value);
+    this._length += 1;
+  }
+
+  uint16(value: number, littleEndian = false): void {
+    this._reserve(2);
+    this._view.setUint16(this._length, value, littleEndian);
+    this._length += 2;
+  }
+
+  uint32(value: number, littleEndian = false): void {
+    this._reserve(4);
+    this._view.setUint32(this._length, value, littleEndian);
+    this._length += 4;
+  }
+
+  uint64(value: number, littleEndian = false): void {
+    this._reserve(8);
+    this._view.setBigUint64(this._length, BigInt(value), littleEndian);
+    this._length += 8;
+  }
+
+  // OpenEXR is little endian throughout
+  int32(value: number): void {
+    this._reserve(4);
+    this._view.setInt32(this._length, value, true);
+    this._length += 4;
+  }
+
+  float32(value: number): void {
+    this._reserve(4);
+    this._view.setFloat32(this._length, value, true);
+    this._length += 4;
+  }
+
+  string(value: string, nullTerminated = true): void {
+    this.raw(new TextEncoder().encode(value));
+    if (nullTerminated) {
+      this.uint8(0);
+    }
+  }
+
+  raw(bytes: Uint8Array): void {
+    this._reserve(bytes.length);
+    this._buffer.set(bytes, this._length);
+    this._length += bytes.length;
+  }
+
+  /** Writes an OpenEXR header attribute. */
+  attribute(name: string, type: string, write: () => void): void {
+    this.string(name);
+    this.string(type);
+    const sizeOffset = this._length;
+    this.int32(0);
+    write();
+    this._view.setInt32(sizeOffset, this._length - sizeOffset - 4, true);
+  }
+
+  private _reserve(size: number): void {
+    if (this._length + size <= this._buffer.length) {
+      return;
+    }
+
+    const buffer = new Uint8Array(
+      Math.max(this._buffer.length * 2, this._length + size)
+    );
+    buffer.set(this._buffer.subarray(0, this._length));
+    this._buffer = buffer;
+    this._view = new DataView(buffer.buffer);
+  }
+}
@@ -0,0 +1,289 @@
+import * as BABYLON from "@babylonjs/core";
+import { packSharedCharts, writeChartUVs } from "./atlasPacker";
+import type { AtlasPackingResult, LightmapChart } from "./types";
+
+/**
+ * Per-instance attribute placing the lightmap UVs shared by the instances of
+ * a geometry in their own atlas rectangle: `uv * xy + zw`.
+ */
+export const LIGHTMAP_SCALE_OFFSET_KIND = "lightmapScaleOffset";
+
+/**
+ * GLSL declaring the scale and offset attribute when `LIGHTMAP_SCALE_OFFSET`
+ * is defined, and `toAtlasUV` applying it to a lightmap UV.
+ */
+export const ATLAS_UV_DECLARATION = `
+  #ifdef LIGHTMAP_SCALE_OFFSET
+    attribute vec4 ${LIGHTMAP_SCALE_OFFSET_KIND};
+  #endif
+
+  vec2 toAtlasUV(vec2 lightmapUV) {
+    #ifdef LIGHTMAP_SCALE_OFFSET
+      return lightmapUV * ${LIGHTMAP_SCALE_OFFSET_KIND}.xy + ${LIGHTMAP_SCALE_OFFSET_KIND}.zw;
+    #else
+      return lightmapUV;
+    #endif
+  }
+`;
+
+/** WGSL version of `ATLAS_UV_DECLARATION`, for vertex shaders. */
+export const ATLAS_UV_DECLARATION_WGSL = `
+  #ifdef LIGHTMAP_SCALE_OFFSET
+    attribute ${LIGHTMAP_SCALE_OFFSET_KIND}: vec4f;
+  #endif
+
+  fn toAtlasUV(lightmapUV: vec2f) -> vec2f {
+    #ifdef LIGHTMAP_SCALE_OFFSET
+      let scaleOffset = vertexInputs.${LIGHTMAP_SCALE_OFFSET_KIND};
+      return lightmapUV * scaleOffset.xy + scaleOffset.zw;
+    #else
+      return lightmapUV;
+    #endif
+  }
+`;
+
+/**
+ * Charts of a geometry shared by several baked meshes or thin instances,
+ * packed once into a square layout that every instance scales into its own
+ * atlas rectangle.
+ */
+export interface SharedLightmapCharts {
+  /** Charts in the world units of the mesh the geometry was charted with. */
+  charts: LightmapChart[];
+  /** Layout of `charts`, in texels at its own density. */
+  packing: AtlasPackingResult;
+  /** Side of the square the shared UVs map to 0..1, in layout texels. */
+  size: number;
+  /** Lightmap UVs within the layout, shared by every instance. */
+  uvs: Float32Array;
+  /** Uniform scale of the mesh the geometry was charted with. */
+  referenceScale: number;
+}
+
+/**
+ * Whether the lightmap UVs of a mesh can't be its own: instances, meshes with
+ * instances or thin instances, and meshes sharing their geometry.
+ */
+export function sharesLightmapGeometry(mesh: BABYLON.AbstractMesh): boolean {
+  if (mesh instanceof BABYLON.InstancedMesh) {
+    return true;
+  }
+  return (
+    mesh instanceof BABYLON.Mesh &&
+    (mesh.hasInstances ||
+      mesh.hasThinInstances ||
+      (mesh.geometry?.meshes.length ?? 0) > 1)
+  );
+}
+
+/**
+ * Mesh whose geometry and materials render `mesh`, i.e. the source mesh of
+ * an instance.
+ */
+export function getLightmapRenderingMesh(
+  mesh: BABYLON.AbstractMesh
+): BABYLON.AbstractMesh {
+  return mesh instanceof BABYLON.InstancedMesh ? mesh.sourceMesh : mesh;
+}
+
+/**
+ * Whether `mesh` renders with a scale and offset attribute, see
+ * `setLightmapScaleOffsets`.
+ */
+export function hasLightmapScaleOffset(mesh: BABYLON.AbstractMesh): boolean {
+  return mesh.isVerticesDataPresent(LIGHTMAP_SCALE_OFFSET_KIND);
+}
+
+/**
+ * Whether `mesh` is drawn with hardware instancing, which meshes with a
+ * per-instance attribute are even without instances.
+ */
+export function usesInstancedRendering(mesh: BABYLON.AbstractMesh): boolean {
+  const renderingMesh = getLightmapRenderingMesh(mesh);
+  return (
+    renderingMesh.hasInstances ||
+    renderingMesh.hasThinInstances ||
+    !!renderingMesh.instancedBuffers
+  );
+}
+
+/**
+ * Readiness check for render targets, as `Mesh.isReady` only checks the
+ * instanced shaders of meshes with instances.
+ */
+export function isLightmapMeshReady(mesh: BABYLON.AbstractMesh): boolean {
+  return mesh instanceof BABYLON.Mesh
+    ? mesh.isReady(true, usesInstancedRendering(mesh))
+    : mesh.isReady(true);
+}
+
+/**
+ * Uniform scale of every lightmap instance of a mesh, relative to
+ * `referenceScale`: one per thin instance, otherwise the mesh's own.
+ * Non-uniform scales are averaged.
+ */
+export function getLightmapInstanceScales(
+  mesh: BABYLON.AbstractMesh,
+  referenceScale: number
+): number[] {
+  const world = mesh.computeWorldMatrix(true);
+  const matrices =
+    mesh instanceof BABYLON.Mesh && mesh.hasThinInstances
+      ? mesh
+          .thinInstanceGetWorldMatrices()
+          .map((matrix) => matrix.multiply(world))
+      : [world];
+  return matrices.map((matrix) => getMatrixScale(matrix) / referenceScale);
+}
+
+/** Cube root of the volume scale of a world matrix. */
+export function getMatrixScale(matrix: BABYLON.Matrix): number {
+  return Math.cbrt(Math.abs(matrix.determinant()));
+}
+
+/**
+ * Charts standing for the instances of a mesh in the atlas, one per scale of
+ * `getLightmapInstanceScales`, each covering the shared layout at the
+ * instance's size. They have no vertices of their own.
+ */
+export function createInstanceCharts(
+  shared: SharedLightmapCharts,
+  scales: number[]
+): LightmapChart[] {
+  const { packing } = shared;
+  return scales.map((scale) => ({
+    vertexStart: 0,
+    vertexCount: 0,
+    coords: new Float32Array(0),
+    width: (packing.width / packing.texelsPerUnit) * scale,
+    height: (packing.height / packing.texelsPerUnit) * scale,
+  }));
+}
+
+/**
+ * Assigns the atlas scale and offset of every lightmap instance of a mesh,
+ * 4 floats per instance in the order of `getLightmapInstanceScales`. The
+ * source mesh of instances defaults to 0 until it is baked itself.
+ */
+export function setLightmapScaleOffsets(
+  mesh: BABYLON.AbstractMesh,
+  scaleOffsets: Float32Array
+): void {
+  if (mesh instanceof BABYLON.Mesh && mesh.hasThinInstances) {
+    mesh.thinInstanceSetBuffer(LIGHTMAP_SCALE_OFFSET_KIND, scaleOffsets, 4);
+    return;
+  }
+
+  const renderingMesh = getLightmapRenderingMesh(mesh) as BABYLON.Mesh;
+  if (!renderingMesh.instancedBuffers?.[LIGHTMAP_SCALE_OFFSET_KIND]) {
+    renderingMesh.registerInstancedBuffer(LIGHTMAP_SCALE_OFFSET_KIND, 4);
+    renderingMesh.instancedBuffers[LIGHTMAP_SCALE_OFFSET_KIND] =
+      BABYLON.Vector4.Zero();
+    for (const instance of renderingMesh.instances) {
+      instance.instancedBuffers[LIGHTMAP_SCALE_OFFSET_KIND] =
+        BABYLON.Vector4.Zero();
+    }
+  }
+  mesh.instancedBuffers[LIGHTMAP_SCALE_OFFSET_KIND] =
+    BABYLON.Vector4.FromArray(scaleOffsets);
+}
+
+/**
+ * Removes the scale and offsets of `setLightmapScaleOffsets` from a mesh, its
+ * thin instances and its instances. Babylon has no counterpart to
+ * `registerInstancedBuffer`, so its storage is emptied here.
+ */
+export function removeLightmapScaleOffsets(mesh: BABYLON.Mesh): void {
+  if (
+    mesh.hasThinInstances &&
+    mesh.isVerticesDataPresent(LIGHTMAP_SCALE_OFFSET_KIND)
+  ) {
+    mesh.thinInstanceSetBuffer(LIGHTMAP_SCALE_OFFSET_KIND, null);
+  }
+  if (
+    !mesh.instancedBuffers ||
+    !(LIGHTMAP_SCALE_OFFSET_KIND in mesh.instancedBuffers)
+  ) {
+    return;
+  }
+
+  delete mesh.instancedBuffers[LIGHTMAP_SCALE_OFFSET_KIND];
+  for (const instance of mesh.instances) {
+    delete instance.instancedBuffers[LIGHTMAP_SCALE_OFFSET_KIND];
+  }
+  const storage = mesh._userInstancedBuffersStorage;
+  if (storage) {
+    storage.vertexBuffers[LIGHTMAP_SCALE_OFFSET_KIND]?.dispose();
+    for (const passBuffers of Object.values(storage.renderPasses ?? {})) {
+      passBuffers[LIGHTMAP_SCALE_OFFSET_KIND]?.dispose();
+      delete passBuffers[LIGHTMAP_SCALE_OFFSET_KIND];
+    }
+    delete storage.vertexBuffers[LIGHTMAP_SCALE_OFFSET_KIND];
+    delete storage.data[LIGHTMAP_SCALE_OFFSET_KIND];
+    delete storage.sizes[LIGHTMAP_SCALE_OFFSET_KIND];
+    delete storage.strides[LIGHTMAP_SCALE_OFFSET_KIND];
+  }
+  mesh._invalidateInstanceVertexArrayObject();
+  mesh._markSubMeshesAsAttributesDirty();
+}
+
+/**
+ * Packs the charts of a shared geometry at `texelsPerUnit` and writes the
+ * UVs every instance shares, for a geometry of `vertexCount` vertices.
+ */
+export function createSharedLightmapCharts(
+  charts: LightmapChart[],
+  texelsPerUnit: number,
+  padding: number,
+  vertexCount: number,
+  referenceScale: number
+): SharedLightmapCharts {
+  const packing = packSharedCharts(charts, texelsPerUnit, padding);
+  const size = Math.max(packing.width, packing.height, 1);
+  const uvs = new Float32Array(vertexCount * 2);
+  writeChartUVs(charts, packing.placements, texelsPerUnit, size, uvs);
+
+  return { charts, packing, size, uvs, referenceScale };
+}
+
+/**
+ * Returns the scale and offset of every instance chart of
+ * `createInstanceCharts` packed at `placements`, and appends the atlas
+ * rectangles of the shared charts within them to `chartRects` as
+ * `x0, y0, x1, y1` texel coordinates.
+ */
+export function placeLightmapInstances(
+  { charts, packing, size }: SharedLightmapCharts,
+  scales: number[],
+  placements: AtlasPackingResult["placements"],
+  texelsPerUnit: number,
+  resolution: number,
+  chartRects: number[]
+): Float32Array {
+  const scaleOffsets = new Float32Array(scales.length * 4);
+
+  scales.forEach((scale, index) => {
+    const { x, y } = placements[index];
+    // Atlas texels per texel of the shared layout
+    const texelScale = (scale * texelsPerUnit) / packing.texelsPerUnit;
+    const uvScale = (size * texelScale) / resolution;
+    scaleOffsets.set(
+      [uvScale, uvScale, x / resolution, y / resolution],
+      index * 4
+    );
+
+    charts.forEach((chart, chartIndex) => {
+      const inner = packing.placements[chartIndex];
+      const width = chart.width * packing.texelsPerUnit;
+      const height = chart.height * packing.texelsPerUnit;
+      chartRects.push(
+        Math.floor(x + inner.x * texelScale),
+        Math.floor(y + inner.y * texelScale),
+        Math.ceil(x + (inner.x + width) * texelScale),
+        Math.ceil(y + (inner.y + height) * texelScale)
+      );
+    });
+  });
+
+  return scaleOffsets;
+}
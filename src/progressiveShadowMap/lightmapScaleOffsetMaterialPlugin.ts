@@ -0,0 +1,150 @@
+import * as BABYLON from "@babylonjs/core";
+import {
+  ATLAS_UV_DECLARATION,
+  ATLAS_UV_DECLARATION_WGSL,
+  hasLightmapScaleOffset,
+  LIGHTMAP_SCALE_OFFSET_KIND,
+} from "./lightmapInstances";
+
+declare module "@babylonjs/core" {
+  interface Material {
+    lightmapScaleOffsetPlugin?: LightmapScaleOffsetMaterialPlugin;
+  }
+}
+
+/**
+ * Applies the per-instance lightmap scale and offset of
+ * `setLightmapScaleOffsets` to the UVs of the baked UV channel, so that the
+ * instances sharing a geometry sample their own atlas rectangle. Meshes
+ * without the attribute are left as they are. Textures on the channel must
+ * use an identity texture matrix, which shadow map pages do.
+ */
+export class LightmapScaleOffsetMaterialPlugin extends BABYLON.MaterialPluginBase {
+  private _enabled: boolean = true;
+  private _uvChannel: number;
+
+  get enabled(): boolean {
+    return this._enabled;
+  }
+
+  set enabled(value: boolean) {
+    if (this._enabled !== value) {
+      this._enabled = value;
+      this._enable(value);
+    }
+  }
+
+  get uvChannel(): number {
+    return this._uvChannel;
+  }
+
+  constructor(material: BABYLON.Material, uvChannel: number = 2) {
+    super(material, "lightmap-scale-offset-plugin", 210, {
+      LIGHTMAP_SCALE_OFFSET: false,
+    });
+    this._uvChannel = uvChannel;
+    this._enable(true);
+    // Also reached for the plugins `Material.clone` recreates from `serialize`
+    material.lightmapScaleOffsetPlugin = this;
+  }
+
+  getClassName() {
+    return "LightmapScaleOffsetMaterialPlugin";
+  }
+
+  serialize(): any {
+    const serializationObject = super.serialize();
+    serializationObject.enabled = this._enabled;
+    serializationObject.uvChannel = this._uvChannel;
+    return serializationObject;
+  }
+
+  parse(source: any, scene: BABYLON.Scene, rootUrl: string): void {
+    super.parse(source, scene, rootUrl);
+    this._uvChannel = source.uvChannel ?? this._uvChannel;
+    this.enabled = source.enabled ?? this._enabled;
+    this.markAllDefinesAsDirty();
+  }
+
+  isCompatible(shaderLanguage: BABYLON.ShaderLanguage) {
+    return (
+      shaderLanguage === BABYLON.ShaderLanguage.GLSL ||
+      shaderLanguage === BABYLON.ShaderLanguage.WGSL
+    );
+  }
+
+  getAttributes(
+    attributes: string[],
+    _scene: BABYLON.Scene,
+    mesh: BABYLON.AbstractMesh
+  ) {
+    if (hasLightmapScaleOffset(mesh)) {
+      attributes.push(LIGHTMAP_SCALE_OFFSET_KIND);
+    }
+  }
+
+  prepareDefines(
+    defines: any,
+    _scene: BABYLON.Scene,
+    mesh: BABYLON.AbstractMesh
+  ) {
+    defines.LIGHTMAP_SCALE_OFFSET = hasLightmapScaleOffset(mesh);
+  }
+
+  getCustomCode(shaderType: string, shaderLanguage: BABYLON.ShaderLanguage) {
+    if (shaderType !== "vertex") {
+      return null;
+    }
+
+    if (shaderLanguage === BABYLON.ShaderLanguage.WGSL) {
+      const mainUV = `vertexOutputs.vMainUV${this._uvChannel}`;
+      return {
+        CUSTOM_VERTEX_DEFINITIONS: ATLAS_UV_DECLARATION_WGSL,
+        CUSTOM_VERTEX_MAIN_END: `
+          #if defined(LIGHTMAP_SCALE_OFFSET) && defined(MAINUV${this._uvChannel})
+            ${mainUV} = toAtlasUV(${mainUV});
+          #endif
+        `,
+      };
+    }
+
+    const mainUV = `vMainUV${this._uvChannel}`;
+    return {
+      CUSTOM_VERTEX_DEFINITIONS: ATLAS_UV_DECLARATION,
+      CUSTOM_VERTEX_MAIN_END: `
+        #if defined(LIGHTMAP_SCALE_OFFSET) && defined(MAINUV${this._uvChannel})
+          ${mainUV} = toAtlasUV(${mainUV});
+        #endif
+      `,
+    };
+  }
+}
+
+BABYLON.RegisterClass(
+  "BABYLON.LightmapScaleOffsetMaterialPlugin",
+  LightmapScaleOffsetMaterialPlugin
+);
+
+/**
+ * Attaches a `LightmapScaleOffsetMaterialPlugin` to a standard or PBR
+ * material, or enables the one it already has. Returns `null` for other
+ * materials, which must apply the scale and offset themselves.
+ */
+export function enableLightmapScaleOffset(
+  material: BABYLON.Material,
+  uvChannel: number
+): LightmapScaleOffsetMaterialPlugin | null {
+  if (
+    !(material instanceof BABYLON.StandardMaterial) &&
+    !(material instanceof BABYLON.PBRBaseMaterial)
+  ) {
+    return null;
+  }
+
+  material.lightmapScaleOffsetPlugin ??= new LightmapScaleOffsetMaterialPlugin(
+    material,
+    uvChannel
+  );
+  material.lightmapScaleOffsetPlugin.enabled = true;
+  return material.lightmapScaleOffsetPlugin;
+}
@@ -0,0 +1,440 @@
+import type * as BABYLON from "@babylonjs/core";
+import type { LightmapChart, LightmapUnwrapOptions } from "./types";
+
+type Vector3 = [number, number, number];
+
+export interface LightmapUnwrapResult {
+  /** Charts in the units of `positions`, covering contiguous output vertex ranges. */
+  charts: LightmapChart[];
+  /** Index of the source vertex each output vertex was copied from. */
+  vertexRemap: Uint32Array;
+  /** Triangle indices referencing the output vertices, in the source triangle order. */
+  indices: Uint32Array;
+}
+
+/**
+ * Splits a triangle mesh into charts of connected, similarly oriented triangles
+ * and projects every chart onto its average plane. Triangles that would fold
+ * over or overlap others of their chart in the projection are moved to other
+ * charts. The charts are laid out in the atlas by `packAtlas`.
+ *
+ * Triangles are only connected when they share both vertex indices of an edge,
+ * so existing seams (split vertices) are kept as chart boundaries. Vertices
+ * used by several charts are duplicated, see `vertexRemap`.
+ */
+export function unwrapLightmapCharts(
+  positions: BABYLON.FloatArray,
+  indices: BABYLON.IndicesArray | null,
+  { maxChartAngle = 66 }: LightmapUnwrapOptions = {}
+): LightmapUnwrapResult {
+  const vertexCount = positions.length / 3;
+  const triangleIndices = indices ?? sequentialIndices(vertexCount);
+  const triangleCount = Math.floor(triangleIndices.length / 3);
+  const minDot = Math.cos((maxChartAngle * Math.PI) / 180);
+
+  const { normals, areas } = computeFaceNormals(positions, triangleIndices);
+  const adjacency = buildEdgeAdjacency(triangleIndices, vertexCount);
+
+  // Grow charts from seed triangles across shared edges, and keep the
+  // triangles that project onto the chart plane without folding over or
+  // overlapping. The triangles left out seed charts of their own.
+  const triangleChart = new Int32Array(triangleCount).fill(-1);
+  const grownChart = new Int32Array(triangleCount).fill(-1);
+  const charts: { triangles: number[]; normal: Vector3 }[] = [];
+  for (let seed = 0; seed < triangleCount; seed++) {
+    if (triangleChart[seed] !== -1) continue;
+
+    const chart = charts.length;
+    const grown = [seed];
+    grownChart[seed] = chart;
+    for (let i = 0; i < grown.length; i++) {
+      const tri = grown[i];
+      for (let e = 0; e < 3; e++) {
+        const a = triangleIndices[tri * 3 + e];
+        const b = triangleIndices[tri * 3 + ((e + 1) % 3)];
+        const neighbours = adjacency.get(edgeKey(a, b, vertexCount));
+        if (!neighbours) continue;
+
+        for (const neighbour of neighbours) {
+          if (
+            triangleChart[neighbour] === -1 &&
+            grownChart[neighbour] !== chart &&
+            dot(normals, seed, neighbour) >= minDot
+          ) {
+            grownChart[neighbour] = chart;
+            grown.push(neighbour);
+          }
+        }
+      }
+    }
+
+    const normal = averageNormal(normals, areas, grown);
+    const triangles = selectUnfoldedTriangles(
+      positions,
+      triangleIndices,
+      vertexCount,
+      grown,
+      normal
+    );
+    triangles.forEach((tri) => (triangleChart[tri] = chart));
+    charts.push({ triangles, normal });
+
+    // Seed again from the first triangle left out before this seed
+    for (const tri of grown) {
+      if (triangleChart[tri] === -1 && tri <= seed) {
+        seed = tri - 1;
+      }
+    }
+  }
+
+  // Duplicate vertices per chart and project them onto the chart plane
+  const vertexRemap: number[] = [];
+  const outIndices = new Uint32Array(triangleCount * 3);
+  const lightmapCharts: LightmapChart[] = [];
+
+  for (const { triangles, normal } of charts) {
+    const [tx, ty, tz, bx, by, bz] = tangentBasis(...normal);
+    const localVertices = new Map<number, number>();
+    const vertexStart = vertexRemap.length;
+    const projected: number[] = [];
+
+    let minU = Infinity,
+      maxU = -Infinity;
+    let minV = Infinity,
+      maxV = -Infinity;
+    for (const tri of triangles) {
+      for (let c = 0; c < 3; c++) {
+        const source = triangleIndices[tri * 3 + c];
+        let vertex = localVertices.get(source);
+        if (vertex === undefined) {
+          vertex = vertexRemap.length;
+          localVertices.set(source, vertex);
+          vertexRemap.push(source);
+
+          const px = positions[source * 3];
+          const py = positions[source * 3 + 1];
+          const pz = positions[source * 3 + 2];
+          const u = px * tx + py * ty + pz * tz;
+          const v = px * bx + py * by + pz * bz;
+          projected.push(u, v);
+          minU = Math.min(minU, u);
+          maxU = Math.max(maxU, u);
+          minV = Math.min(minV, v);
+          maxV = Math.max(maxV, v);
+        }
+        outIndices[tri * 3 + c] = vertex;
+      }
+    }
+
+    const coords = new Float32Array(projected.length);
+    for (let i = 0; i < projected.length; i += 2) {
+      coords[i] = projected[i] - minU;
+      coords[i + 1] = projected[i + 1] - minV;
+    }
+
+    lightmapCharts.push({
+      vertexStart,
+      vertexCount: vertexRemap.length - vertexStart,
+      coords,
+      width: maxU - minU,
+      height: maxV - minV,
+    });
+  }
+
+  return {
+    charts: lightmapCharts,
+    vertexRemap: Uint32Array.from(vertexRemap),
+    indices: outIndices,
+  };
+}
+
+function sequentialIndices(vertexCount: number): Uint32Array {
+  const indices = new Uint32Array(vertexCount);
+  for (let i = 0; i < vertexCount; i++) {
+    indices[i] = i;
+  }
+  return indices;
+}
+
+function computeFaceNormals(
+  positions: BABYLON.FloatArray,
+  indices: BABYLON.IndicesArray
+): { normals: Float32Array; areas: Float32Array } {
+  const triangleCount = Math.floor(indices.length / 3);
+  const normals = new Float32Array(triangleCount * 3);
+  const areas = new Float32Array(triangleCount);
+
+  for (let tri = 0; tri < triangleCount; tri++) {
+    const a = indices[tri * 3] * 3;
+    const b = indices[tri * 3 + 1] * 3;
+    const c = indices[tri * 3 + 2] * 3;
+    const e1x = positions[b] - positions[a];
+    const e1y = positions[b + 1] - positions[a + 1];
+    const e1z = positions[b + 2] - positions[a + 2];
+    const e2x = positions[c] - positions[a];
+    const e2y = positions[c + 1] - positions[a + 1];
+    const e2z = positions[c + 2] - positions[a + 2];
+    const nx = e1y * e2z - e1z * e2y;
+    const ny = e1z * e2x - e1x * e2z;
+    const nz = e1x * e2y - e1y * e2x;
+    const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+
+    areas[tri] = length / 2;
+    if (length > 0) {
+      normals[tri * 3] = nx / length;
+      normals[tri * 3 + 1] = ny / length;
+      normals[tri * 3 + 2] = nz / length;
+    }
+  }
+
+  return { normals, areas };
+}
+
+function edgeKey(a: number, b: number, vertexCount: number): number {
+  return a < b ? a * vertexCount + b : b * vertexCount + a;
+}
+
+function buildEdgeAdjacency(
+  indices: BABYLON.IndicesArray,
+  vertexCount: number
+): Map<number, number[]> {
+  const adjacency = new Map<number, number[]>();
+  const triangleCount = Math.floor(indices.length / 3);
+
+  for (let tri = 0; tri < triangleCount; tri++) {
+    for (let e = 0; e < 3; e++) {
+      const key = edgeKey(
+        indices[tri * 3 + e],
+        indices[tri * 3 + ((e + 1) % 3)],
+        vertexCount
+      );
+      const triangles = adjacency.get(key);
+      if (triangles) {
+        triangles.push(tri);
+      } else {
+        adjacency.set(key, [tri]);
+      }
+    }
+  }
+
+  return adjacency;
+}
+
+function dot(normals: Float32Array, a: number, b: number): number {
+  return (
+    normals[a * 3] * normals[b * 3] +
+    normals[a * 3 + 1] * normals[b * 3 + 1] +
+    normals[a * 3 + 2] * normals[b * 3 + 2]
+  );
+}
+
+/**
+ * Triangles of a grown chart, in growth order, that are connected to the seed
+ * through kept triangles and project onto the plane of `normal` facing it,
+ * without overlapping each other. The seed is always kept.
+ */
+function selectUnfoldedTriangles(
+  positions: BABYLON.FloatArray,
+  indices: BABYLON.IndicesArray,
+  vertexCount: number,
+  grown: number[],
+  normal: Vector3
+): number[] {
+  const [tx, ty, tz, bx, by, bz] = tangentBasis(...normal);
+  // Corners of every grown triangle, as u0, v0, u1, v1, u2, v2
+  const coords = new Float64Array(grown.length * 6);
+  let minU = Infinity,
+    maxU = -Infinity;
+  let minV = Infinity,
+    maxV = -Infinity;
+  grown.forEach((tri, index) => {
+    for (let c = 0; c < 3; c++) {
+      const vertex = indices[tri * 3 + c] * 3;
+      const px = positions[vertex];
+      const py = positions[vertex + 1];
+      const pz = positions[vertex + 2];
+      const u = px * tx + py * ty + pz * tz;
+      const v = px * bx + py * by + pz * bz;
+      coords[index * 6 + c * 2] = u;
+      coords[index * 6 + c * 2 + 1] = v;
+      minU = Math.min(minU, u);
+      maxU = Math.max(maxU, u);
+      minV = Math.min(minV, v);
+      maxV = Math.max(maxV, v);
+    }
+  });
+
+  const extent = Math.max(maxU - minU, maxV - minV);
+  // Shared edges and vertices touch without overlapping
+  const epsilon = extent * 1e-5;
+  const cellSize = extent / Math.ceil(Math.sqrt(grown.length)) || 1;
+  const columns = Math.floor(extent / cellSize) + 1;
+  // Kept triangles overlapping every cell of a grid over the chart
+  const grid = new Map<number, number[]>();
+  const forEachCell = (index: number, visit: (cell: number) => boolean) => {
+    const o = index * 6;
+    const cellU = (u: number) => Math.floor((u - minU) / cellSize);
+    const cellV = (v: number) => Math.floor((v - minV) / cellSize);
+    const minI = cellU(Math.min(coords[o], coords[o + 2], coords[o + 4]));
+    const maxI = cellU(Math.max(coords[o], coords[o + 2], coords[o + 4]));
+    const minJ = cellV(Math.min(coords[o + 1], coords[o + 3], coords[o + 5]));
+    const maxJ = cellV(Math.max(coords[o + 1], coords[o + 3], coords[o + 5]));
+    for (let i = minI; i <= maxI; i++) {
+      for (let j = minJ; j <= maxJ; j++) {
+        if (visit(j * columns + i)) return true;
+      }
+    }
+    return false;
+  };
+
+  const kept: number[] = [];
+  const keptEdges = new Set<number>();
+  grown.forEach((tri, index) => {
+    const edges = [0, 1, 2].map((e) =>
+      edgeKey(
+        indices[tri * 3 + e],
+        indices[tri * 3 + ((e + 1) % 3)],
+        vertexCount
+      )
+    );
+    const signedArea = getSignedArea(coords, index);
+    // Degenerate triangles cover no texels, whatever their orientation
+    const degenerate = Math.abs(signedArea) <= epsilon * epsilon;
+    if (
+      index > 0 &&
+      (!edges.some((edge) => keptEdges.has(edge)) ||
+        (!degenerate &&
+          (signedArea < 0 ||
+            forEachCell(index, (cell) =>
+              (grid.get(cell) ?? []).some((other) =>
+                trianglesOverlap(coords, index, other, epsilon)
+              )
+            ))))
+    ) {
+      return;
+    }
+
+    kept.push(tri);
+    edges.forEach((edge) => keptEdges.add(edge));
+    if (!degenerate) {
+      forEachCell(index, (cell) => {
+        const cellTriangles = grid.get(cell);
+        if (cellTriangles) {
+          cellTriangles.push(index);
+        } else {
+          grid.set(cell, [index]);
+        }
+        return false;
+      });
+    }
+  });
+
+  return kept;
+}
+
+// Twice the signed area of a triangle of `coords`, positive counterclockwise
+function getSignedArea(coords: Float64Array, index: number): number {
+  const o = index * 6;
+  return (
+    (coords[o + 2] - coords[o]) * (coords[o + 5] - coords[o + 1]) -
+    (coords[o + 3] - coords[o + 1]) * (coords[o + 4] - coords[o])
+  );
+}
+
+/**
+ * Whether the interiors of two triangles of `coords` overlap by more than
+ * `epsilon`. Disjoint triangles are separated along the normal of one of
+ * their edges.
+ */
+function trianglesOverlap(
+  coords: Float64Array,
+  a: number,
+  b: number,
+  epsilon: number
+): boolean {
+  for (const triangle of [a, b]) {
+    for (let e = 0; e < 3; e++) {
+      const start = triangle * 6 + e * 2;
+      const end = triangle * 6 + ((e + 1) % 3) * 2;
+      const du = coords[end] - coords[start];
+      const dv = coords[end + 1] - coords[start + 1];
+      const length = Math.sqrt(du * du + dv * dv);
+      if (length === 0) continue;
+
+      let minA = Infinity,
+        maxA = -Infinity;
+      let minB = Infinity,
+        maxB = -Infinity;
+      for (let c = 0; c < 3; c++) {
+        const projectedA =
+          (coords[a * 6 + c * 2 + 1] * du - coords[a * 6 + c * 2] * dv) /
+          length;
+        const projectedB =
+          (coords[b * 6 + c * 2 + 1] * du - coords[b * 6 + c * 2] * dv) /
+          length;
+        minA = Math.min(minA, projectedA);
+        maxA = Math.max(maxA, projectedA);
+        minB = Math.min(minB, projectedB);
+        maxB = Math.max(maxB, projectedB);
+      }
+      if (maxA <= minB + epsilon || maxB <= minA + epsilon) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+function averageNormal(
+  normals: Float32Array,
+  areas: Float32Array,
+  triangles: number[]
+): Vector3 {
+  let x = 0,
+    y = 0,
+    z = 0;
+  for (const tri of triangles) {
+    x += normals[tri * 3] * areas[tri];
+    y += normals[tri * 3 + 1] * areas[tri];
+    z += normals[tri * 3 + 2] * areas[tri];
+  }
+
+  const length = Math.sqrt(x * x + y * y + z * z);
+  if (length === 0) {
+    return [0, 1, 0];
+  }
+  return [x / length, y / length, z / length];
+}
+
+function tangentBasis(
+  nx: number,
+  ny: number,
+  nz: number
+): [number, number, number, number, number, number] {
+  // Cross with the world axis least aligned with the normal
+  let ax = 0,
+    ay = 0,
+    az = 0;
+  if (Math.abs(nx) <= Math.abs(ny) && Math.abs(nx) <= Math.abs(nz)) {
+    ax = 1;
+  } else if (Math.abs(ny) <= Math.abs(nz)) {
+    ay = 1;
+  } else {
+    az = 1;
+  }
+
+  let tx = ay * nz - az * ny;
+  let ty = az * nx - ax * nz;
+  let tz = ax * ny - ay * nx;
+  const length = Math.sqrt(tx * tx + ty * ty + tz * tz);
+  tx /= length;
+  ty /= length;
+  tz /= length;
+
+  const bx = ny * tz - nz * ty;
+  const by = nz * tx - nx * tz;
+  const bz = nx * ty - ny * tx;
+
+  return [tx, ty, tz, bx, by, bz];
+}
@@ -0,0 +1,151 @@
+import * as BABYLON from "@babylonjs/core";
+
+export const DEFAULT_NODE_LIGHTMAP_BLOCK = "lightmap";
+export const DEFAULT_NODE_AMBIENT_OCCLUSION_BLOCK = "ambientOcclusion";
+
+/**
+ * Lightmap slot of a material, which remembers the material's own settings so
+ * that they can be put back.
+ */
+export interface MaterialLightmapBinding {
+  readonly material: BABYLON.Material;
+  /** Assigns the lightmap to the material. */
+  apply(texture: BABYLON.Texture): void;
+  /** Restores the material as it was when it was bound. */
+  restore(): void;
+}
+
+/**
+ * Binds the lightmap slot of a material. Standard and PBR materials get the
+ * texture as `lightmapTexture`, used as a shadow map unless `useAsShadowmap`
+ * is false, in which case it is added to their color; node materials get it in
+ * the texture block named `nodeBlockName`, whose UV input must be wired to the
+ * baked UV set. Returns `null` for other materials.
+ */
+export function bindMaterialLightmap(
+  material: BABYLON.Material,
+  nodeBlockName: string = DEFAULT_NODE_LIGHTMAP_BLOCK,
+  useAsShadowmap: boolean = true
+): MaterialLightmapBinding | null {
+  if (material instanceof BABYLON.PBRBaseMaterial) {
+    // PBR material classes expose the slot under different names
+    const {
+      _lightmapTexture: lightmapTexture,
+      _useLightmapAsShadowmap: useLightmapAsShadowmap,
+    } = material;
+    const setLightmap = (
+      texture: BABYLON.Nullable<BABYLON.BaseTexture>,
+      asShadowmap: boolean
+    ) => {
+      material._lightmapTexture = texture;
+      material._useLightmapAsShadowmap = asShadowmap;
+      material.markAsDirty(BABYLON.Material.TextureDirtyFlag);
+    };
+    return {
+      material,
+      apply(texture) {
+        setLightmap(texture, useAsShadowmap);
+      },
+      restore() {
+        setLightmap(lightmapTexture, useLightmapAsShadowmap);
+      },
+    };
+  }
+
+  if (material instanceof BABYLON.StandardMaterial) {
+    const { lightmapTexture, useLightmapAsShadowmap } = material;
+    return {
+      material,
+      apply(texture) {
+        material.lightmapTexture = texture;
+        material.useLightmapAsShadowmap = useAsShadowmap;
+      },
+      restore() {
+        material.lightmapTexture = lightmapTexture;
+        material.useLightmapAsShadowmap = useLightmapAsShadowmap;
+      },
+    };
+  }
+
+  if (material instanceof BABYLON.NodeMaterial) {
+    return bindNodeTextureBlock(material, nodeBlockName);
+  }
+
+  return null;
+}
+
+/**
+ * Binds the ambient occlusion slot of a material, for ambient occlusion
+ * bakes. PBR materials read the red channel of `ambientTexture`, while
+ * standard materials multiply their ambient color by the texture's RGB, which
+ * is only gray without bent normals. Node materials get the texture like in
+ * `bindMaterialLightmap`.
+ */
+export function bindMaterialAmbientOcclusion(
+  material: BABYLON.Material,
+  nodeBlockName: string = DEFAULT_NODE_AMBIENT_OCCLUSION_BLOCK
+): MaterialLightmapBinding | null {
+  if (material instanceof BABYLON.PBRBaseMaterial) {
+    const {
+      _ambientTexture: ambientTexture,
+      _useAmbientInGrayScale: useAmbientInGrayScale,
+    } = material;
+    const setAmbient = (
+      texture: BABYLON.Nullable<BABYLON.BaseTexture>,
+      inGrayScale: boolean
+    ) => {
+      material._ambientTexture = texture;
+      material._useAmbientInGrayScale = inGrayScale;
+      material.markAsDirty(BABYLON.Material.TextureDirtyFlag);
+    };
+    return {
+      material,
+      apply(texture) {
+        setAmbient(texture, true);
+      },
+      restore() {
+        setAmbient(ambientTexture, useAmbientInGrayScale);
+      },
+    };
+  }
+
+  if (material instanceof BABYLON.StandardMaterial) {
+    const { ambientTexture } = material;
+    return {
+      material,
+      apply(texture) {
+        material.ambientTexture = texture;
+      },
+      restore() {
+        material.ambientTexture = ambientTexture;
+      },
+    };
+  }
+
+  if (material instanceof BABYLON.NodeMaterial) {
+    return bindNodeTextureBlock(material, nodeBlockName);
+  }
+
+  return null;
+}
+
+function bindNodeTextureBlock(
+  material: BABYLON.NodeMaterial,
+  blockName: string
+): MaterialLightmapBinding | null {
+  const block = material.getBlockByName(blockName);
+  if (!(block instanceof BABYLON.TextureBlock)) {
+    return null;
+  }
+
+  const { texture: originalTexture } = block;
+  return {
+    material,
+    apply(texture) {
+      block.texture = texture;
+    },
+    restore() {
+      block.texture = originalTexture;
+    },
+  };
+}
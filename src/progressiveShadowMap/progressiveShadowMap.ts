@@ -0,0 +1,1967 @@
+import * as BABYLON from "@babylonjs/core";
+import { AmbientOcclusionSampler } from "./ambientOcclusion";
+import { AtlasGuides } from "./atlasGuides";
+import {
+  estimateTexelsPerUnit,
+  getChartArea,
+  packAtlasPages,
+  writeChartUVs,
+} from "./atlasPacker";
+import { BakeJob } from "./bakeJob";
+import {
+  arrayBufferToDataUrl,
+  BAKE_MANIFEST_VERSION,
+  computeGeometryHash,
+} from "./bakeManifest";
+import { captureGeometry, restoreGeometry } from "./geometrySnapshots";
+import type { GeometrySnapshot } from "./geometrySnapshots";
+import {
+  encodeLightmap,
+  encodePNG,
+  LIGHTMAP_MIME_TYPES,
+  readLightmapPixels,
+  resolveLightmapPrecision,
+} from "./lightmapExport";
+import {
+  createBounceRadianceMaterial,
+  DEFAULT_IRRADIANCE_OPTIONS,
+} from "./irradianceBounces";
+import {
+  createInstanceCharts,
+  createSharedLightmapCharts,
+  getLightmapInstanceScales,
+  getLightmapRenderingMesh,
+  getMatrixScale,
+  hasLightmapScaleOffset,
+  isLightmapMeshReady,
+  placeLightmapInstances,
+  removeLightmapScaleOffsets,
+  setLightmapScaleOffsets,
+  sharesLightmapGeometry,
+} from "./lightmapInstances";
+import type { SharedLightmapCharts } from "./lightmapInstances";
+import { enableLightmapScaleOffset } from "./lightmapScaleOffsetMaterialPlugin";
+import { unwrapLightmapCharts } from "./lightmapUnwrapper";
+import {
+  bindMaterialAmbientOcclusion,
+  bindMaterialLightmap,
+  DEFAULT_NODE_LIGHTMAP_BLOCK,
+} from "./materialLightmaps";
+import type { MaterialLightmapBinding } from "./materialLightmaps";
+import {
+  sampleCone,
+  sampleCosineHemisphere,
+  sampleRectangle,
+  sampleSphere,
+} from "./lightSampling";
+import { ProgressiveShadowMapMaterialPlugin } from "./progressiveShadowMapMaterialPlugin";
+import { createSampleSequence } from "./sampleSequences";
+import { getCasterCutout, prepareShadowGenerator } from "./shadowCasters";
+import {
+  findLightmapSeams,
+  stitchLightmapSeams,
+  transformLightmapSeams,
+} from "./seamStitching";
+import { ShadowMapDenoiser } from "./shadowMapDenoiser";
+import { ShadowMapDilator } from "./shadowMapDilator";
+import {
+  getTransmissionShadowGenerator,
+  ShadowTransmissionMap,
+} from "./shadowTransmission";
+import {
+  boundsIntersect,
+  computeOcclusionBounds,
+  computeShadowBounds,
+  getWorldBounds,
+} from "./shadowVolumes";
+import {
+  getSupportedTexturePrecision,
+  getTextureType,
+  TextureCopier,
+} from "./textureUtils";
+import type {
+  AreaLightShape,
+  AtlasLayout,
+  BakeLightOptions,
+  BakeManifest,
+  BakeManifestOptions,
+  BakeProgress,
+  BakeRenderOptions,
+  Bounds,
+  LightmapChart,
+  KeyframeBakeOptions,
+  LightmapExportFormat,
+  LightmapKeyframe,
+  ProgressiveShadowMapOptions,
+  SampleSequence,
+  ShadowMapPostProcessOptions,
+  TexturePrecision,
+  TimeOfDayKeyframe,
+} from "./types";
+import {
+  applyVertexRemap,
+  createUV1Chart,
+  getUVKind,
+  getWorldPositions,
+} from "./uvUtils";
+
+const DEFAULT_OPTIONS: Required<ProgressiveShadowMapOptions> = {
+  resolution: 512,
+  blendWindow: 1,
+  waitBetweenRenders: 0,
+  jitterRadius: 0.025,
+  lightShape: null,
+  separateLightChannels: false,
+  blendMode: "ema",
+  blendFactor: 0.1,
+  sampleSequence: "halton",
+  seed: 0,
+  uvChannel: 2,
+  uvGenerationMode: "reuseUV1",
+  unwrapOptions: {},
+  keepGeneratedUVs: false,
+  texelsPerUnit: null,
+  padding: 2,
+  maxPages: 1,
+  applyToMaterials: false,
+  nodeMaterialLightmapBlock: DEFAULT_NODE_LIGHTMAP_BLOCK,
+  disableShadowCasting: false,
+  bakeMode: "shadow",
+  ambientOcclusion: {},
+  irradiance: {},
+  accumulationPrecision: null,
+  outputPrecision: null,
+  denoise: null,
+  dilation: 0,
+  stitchSeams: false,
+};
+
+const MAX_LIGHT_CHANNELS = 4;
+
+interface BakeLight {
+  light: BABYLON.ShadowLight;
+  shape: AreaLightShape | null;
+  weight: number;
+  samples: number;
+  sequence: SampleSequence;
+  originalDirection: BABYLON.Vector3;
+  originalPosition: BABYLON.Vector3;
+  originalIntensity: number;
+}
+
+interface LightSample {
+  /** -1 for the directions sampled by ambient occlusion and bounces. */
+  lightIndex: number;
+  sampleIndex: number;
+  /** Index of the sample within its pass, the blending restarts with 0. */
+  iteration: number;
+  /** Indirect bounce gathered by the sample, 0 for direct lighting. */
+  bounce: number;
+}
+
+interface MeshCharts {
+  charts: LightmapChart[];
+  /** Vertex duplication done by the unwrapper, if the mesh was unwrapped. */
+  unwrap?: { vertexRemap: Uint32Array; indices: Uint32Array };
+  /**
+   * Layout shared with the other meshes of the geometry, and the relative
+   * scale of every instance `charts` stand for.
+   */
+  instances?: { shared: SharedLightmapCharts; scales: number[] };
+}
+
+interface BakedMesh {
+  mesh: BABYLON.AbstractMesh;
+  page: number;
+  uvs: Float32Array;
+  geometryHash: string;
+  unwrap?: MeshCharts["unwrap"];
+  /** Scale and offset of every instance, see `setLightmapScaleOffsets`. */
+  scaleOffsets?: Float32Array;
+}
+
+interface MaterialBakeBinding {
+  binding: MaterialLightmapBinding | null;
+  page: number;
+}
+
+interface DisabledShadowCaster {
+  renderList: BABYLON.AbstractMesh[];
+  mesh: BABYLON.AbstractMesh;
+}
+
+interface ExcludedLightMesh {
+  light: BABYLON.Light;
+  mesh: BABYLON.AbstractMesh;
+}
+
+interface ShadowMapPage {
+  pingPongRTT1: BABYLON.RenderTargetTexture;
+  pingPongRTT2: BABYLON.RenderTargetTexture;
+  meshMaterialRTT1Map: Map<number, BABYLON.Material>;
+  meshMaterialRTT2Map: Map<number, BABYLON.Material>;
+  /** Atlas rectangle of every chart, as `x0, y0, x1, y1` texel coordinates. */
+  chartRects: number[];
+  postProcessedRTT: BABYLON.RenderTargetTexture | null;
+  /** Direct lighting of irradiance bakes with bounces. */
+  directRTT: BABYLON.RenderTargetTexture | null;
+  /** Previous result the current bounce gathers light from. */
+  bounceSourceRTT: BABYLON.RenderTargetTexture | null;
+  bounceMaterial: BABYLON.ShaderMaterial | null;
+  bounceScaleOffsetMaterial: BABYLON.ShaderMaterial | null;
+  /** Whether `postProcessedRTT` holds the result of the current bake. */
+  isPostProcessed: boolean;
+}
+
+export class ProgressiveShadowMap {
+  private _afterRenderObservable: BABYLON.Observable<void>;
+  private _afterBlendIterationObservable: BABYLON.Observable<BakeProgress>;
+  private _scene: BABYLON.Scene;
+  private _lights: BakeLight[] = [];
+  private _options: Required<ProgressiveShadowMapOptions>;
+
+  private _pages: ShadowMapPage[] = [];
+  private _useAlternateRTT: boolean = false;
+  private _atlasLayout: AtlasLayout | null = null;
+  private _bakedMeshes: Map<number, BakedMesh> = new Map();
+  // Geometries of the baked meshes before `addMeshes` first changed them
+  private _geometrySnapshots: Map<BABYLON.Geometry, GeometrySnapshot> =
+    new Map();
+  private _materialBindings: Map<number, MaterialBakeBinding> = new Map();
+  private _disabledShadowCasters: DisabledShadowCaster[] = [];
+  private _currentJob: BakeJob | null = null;
+  private _atlasGuides: AtlasGuides | null = null;
+  private _denoiser: ShadowMapDenoiser | null = null;
+  private _dilator: ShadowMapDilator | null = null;
+  private _occlusionSampler: AmbientOcclusionSampler | null = null;
+  private _occlusionSequence: SampleSequence | null = null;
+  private _bounceSampler: AmbientOcclusionSampler | null = null;
+  private _bounceOccluderMaterial: BABYLON.ShaderMaterial | null = null;
+  /** Bounce materials of alpha tested casters, by page, scale and material. */
+  private _bounceCutoutMaterials: Map<string, BABYLON.ShaderMaterial> =
+    new Map();
+  private _shadowTransmission: ShadowTransmissionMap | null = null;
+  private _shadowGeneratorRestores: (() => void)[] = [];
+  private _textureCopier: TextureCopier | null = null;
+  private _excludedLightMeshes: ExcludedLightMesh[] = [];
+  private _accumulationPrecision: TexturePrecision;
+  // World bounds of the scene's meshes when the last bake started
+  private _meshBounds: Map<number, Bounds> = new Map();
+
+  constructor(
+    scene: BABYLON.Scene,
+    light: BABYLON.ShadowLight,
+    options: ProgressiveShadowMapOptions = {}
+  ) {
+    this._options = { ...DEFAULT_OPTIONS, ...options };
+    if (this._options.uvChannel < 2 || this._options.uvChannel > 6) {
+      throw new Error(
+        `Invalid UV channel ${this._options.uvChannel}, expected a value between 2 and 6.`
+      );
+    }
+
+    this._afterRenderObservable = new BABYLON.Observable<void>();
+    this._afterBlendIterationObservable =
+      new BABYLON.Observable<BakeProgress>();
+    this._scene = scene;
+    this.addLight(light, { shape: this._options.lightShape });
+
+    const {
+      bakeMode,
+      separateLightChannels,
+      sampleSequence,
+      seed,
+      accumulationPrecision,
+    } = this._options;
+    // Irradiance is HDR
+    this._accumulationPrecision = getSupportedTexturePrecision(
+      scene.getEngine(),
+      accumulationPrecision ?? (bakeMode === "irradiance" ? "float" : "byte")
+    );
+
+    if (bakeMode !== "shadow") {
+      if (separateLightChannels) {
+        throw new Error(
+          `Separate light channels are not supported by ${bakeMode} bakes.`
+        );
+      }
+      this._occlusionSequence =
+        typeof sampleSequence === "string"
+          ? createSampleSequence(sampleSequence, seed)
+          : sampleSequence;
+    }
+
+    if (bakeMode === "ambientOcclusion") {
+      this._occlusionSampler = new AmbientOcclusionSampler(
+        scene,
+        this._options.ambientOcclusion
+      );
+    } else if (bakeMode === "irradiance" && this._getBounceCount() > 0) {
+      const { bias, depthResolution } = {
+        ...DEFAULT_IRRADIANCE_OPTIONS,
+        ...this._options.irradiance,
+      };
+      this._bounceSampler = new AmbientOcclusionSampler(scene, {
+        bias,
+        depthResolution,
+      });
+      this._bounceOccluderMaterial = createBounceRadianceMaterial(
+        scene,
+        this._options.uvChannel,
+        null
+      );
+      this._textureCopier = new TextureCopier(scene.getEngine());
+    }
+    if (bakeMode !== "ambientOcclusion") {
+      this._shadowTransmission = new ShadowTransmissionMap(scene);
+    }
+
+    this._pages.push(this._createPage(0));
+  }
+
+  public get afterRenderObservable(): BABYLON.Observable<void> {
+    return this._afterRenderObservable;
+  }
+
+  public get afterBlendIterationObservable(): BABYLON.Observable<BakeProgress> {
+    return this._afterBlendIterationObservable;
+  }
+
+  public get options(): Readonly<Required<ProgressiveShadowMapOptions>> {
+    return this._options;
+  }
+
+  /**
+   * Precision the shadow maps are accumulated in, after falling back to what
+   * the engine supports.
+   */
+  public get accumulationPrecision(): TexturePrecision {
+    return this._accumulationPrecision;
+  }
+
+  /** Precision `exportShadowMap` resolves the shadow maps to. */
+  public get outputPrecision(): TexturePrecision {
+    return this._options.outputPrecision ?? this._accumulationPrecision;
+  }
+
+  public get atlasLayout(): AtlasLayout | null {
+    return this._atlasLayout;
+  }
+
+  public get pageCount(): number {
+    return this._pages.length;
+  }
+
+  public get lights(): BABYLON.ShadowLight[] {
+    return this._lights.map((bakeLight) => bakeLight.light);
+  }
+
+  public get meshes(): BABYLON.AbstractMesh[] {
+    return [...this._bakedMeshes.values()].map(({ mesh }) => mesh);
+  }
+
+  /**
+   * Registers a light to be baked. Every iteration of `render()` samples a
+   * single light, and the contributions are scaled so that the accumulated
+   * result is the weighted sum of all lights.
+   */
+  public addLight(
+    light: BABYLON.ShadowLight,
+    { weight = 1, samples, shape = null }: BakeLightOptions = {}
+  ): void {
+    if (this._lights.some((bakeLight) => bakeLight.light === light)) {
+      return;
+    }
+
+    if (
+      this._options.separateLightChannels &&
+      this._lights.length >= MAX_LIGHT_CHANNELS
+    ) {
+      throw new Error(
+        `Separate light channels support at most ${MAX_LIGHT_CHANNELS} lights.`
+      );
+    }
+
+    this._lights.push({
+      light,
+      shape: this._resolveLightShape(light, shape),
+      weight,
+      samples: Math.max(1, samples ?? this._options.blendWindow),
+      sequence:
+        typeof this._options.sampleSequence === "string"
+          ? createSampleSequence(
+              this._options.sampleSequence,
+              this._options.seed + this._lights.length
+            )
+          : this._options.sampleSequence,
+      originalDirection: light.direction.clone(),
+      originalPosition: light.position.clone(),
+      originalIntensity: light.intensity,
+    });
+  }
+
+  public removeLight(light: BABYLON.ShadowLight): void {
+    const index = this._lights.findIndex(
+      (bakeLight) => bakeLight.light === light
+    );
+    if (index === -1) {
+      return;
+    }
+
+    // Idle lights are where the bake found them
+    if (this._currentJob && !this._currentJob.isFinished) {
+      this._restoreOriginalLight(this._lights[index]);
+    }
+    this._lights.splice(index, 1);
+  }
+
+  /**
+   * Lays out the lightmap UVs of the meshes in the atlas and adds them to the
+   * bake. Instances, thin instances and meshes sharing their geometry share
+   * their UVs too, and every instance is placed in its own atlas rectangle by
+   * a per-instance scale and offset, see `setLightmapScaleOffsets`. The thin
+   * instances of a mesh share a page. The geometries are restored by
+   * `dispose`, unless `keepGeneratedUVs` is set.
+   */
+  public addMeshes(meshes: BABYLON.AbstractMesh[]): AtlasLayout {
+    this._captureGeometries(meshes);
+    // Hash the geometry before the unwrapper modifies it
+    const geometryHashes = meshes.map((mesh) =>
+      this._isBakeable(mesh) ? computeGeometryHash(mesh) : ""
+    );
+    const meshCharts = this._createMeshCharts(meshes);
+    meshes.forEach((mesh, index) => {
+      if (this._isBakeable(mesh) && !meshCharts[index]) {
+        console.warn(`Mesh ${mesh.name} has no valid UV data.`);
+      }
+    });
+
+    const { resolution, texelsPerUnit, padding, maxPages } = this._options;
+    const layout = packAtlasPages(
+      meshCharts.map((entry) => entry?.charts ?? null),
+      {
+        resolution,
+        texelsPerUnit,
+        padding,
+        maxPages,
+      }
+    );
+    this._atlasLayout = layout;
+
+    layout.pages.forEach((atlasPage, pageIndex) => {
+      if (!this._pages[pageIndex]) {
+        this._pages.push(this._createPage(pageIndex));
+      }
+      const page = this._pages[pageIndex];
+      page.chartRects = [];
+
+      let chartOffset = 0;
+      for (const meshIndex of atlasPage.meshIndices) {
+        const mesh = meshes[meshIndex];
+        const { charts, unwrap, instances } = meshCharts[meshIndex]!;
+        const placements = atlasPage.packing.placements.slice(
+          chartOffset,
+          chartOffset + charts.length
+        );
+        chartOffset += charts.length;
+
+        let uv2: Float32Array;
+        let scaleOffsets: Float32Array | undefined;
+        if (instances) {
+          uv2 = instances.shared.uvs;
+          scaleOffsets = placeLightmapInstances(
+            instances.shared,
+            instances.scales,
+            placements,
+            layout.texelsPerUnit,
+            resolution,
+            page.chartRects
+          );
+          setLightmapScaleOffsets(mesh, scaleOffsets);
+        } else {
+          uv2 = new Float32Array(mesh.getTotalVertices() * 2);
+          writeChartUVs(
+            charts,
+            placements,
+            layout.texelsPerUnit,
+            resolution,
+            uv2
+          );
+
+          charts.forEach((chart, index) => {
+            const { x, y } = placements[index];
+            page.chartRects.push(
+              x,
+              y,
+              x + Math.ceil(chart.width * layout.texelsPerUnit),
+              y + Math.ceil(chart.height * layout.texelsPerUnit)
+            );
+          });
+        }
+
+        mesh.setVerticesData(getUVKind(this._options.uvChannel), uv2);
+        this._bakedMeshes.set(mesh.uniqueId, {
+          mesh,
+          page: pageIndex,
+          uvs: uv2,
+          geometryHash: geometryHashes[meshIndex],
+          unwrap,
+          scaleOffsets,
+        });
+
+        if (mesh.material) {
+          this._addMeshToPage(mesh, mesh.material, page);
+        }
+      }
+    });
+
+    return layout;
+  }
+
+  /**
+   * Starts accumulating the jittered samples of every light, one iteration
+   * per frame. The returned job can be paused, resumed and cancelled, and
+   * resolves once the bake has completed.
+   */
+  public render(options: BakeRenderOptions = {}): BakeJob {
+    return this._startBake(null, options);
+  }
+
+  /**
+   * Bakes the lightmaps of every time-of-day keyframe, in time order, with
+   * the light placed at the keyframe's direction and intensity. Every
+   * keyframe shares the atlas layout, so that `TimeOfDayLightmaps` can blend
+   * them on the same UVs. The light is put back afterwards. The lightmaps
+   * are copies owned by the caller, including those `onKeyframe` got before
+   * the bake was cancelled.
+   */
+  public async renderKeyframes(
+    keyframes: TimeOfDayKeyframe[],
+    { light, onKeyframe, signal }: KeyframeBakeOptions = {}
+  ): Promise<LightmapKeyframe[]> {
+    const keyLight = light ?? this._lights[0].light;
+    if (!this._lights.some((bakeLight) => bakeLight.light === keyLight)) {
+      throw new Error(
+        `Light ${keyLight.name} is not part of the progressive shadow map.`
+      );
+    }
+
+    const copier =
+      this._textureCopier ?? new TextureCopier(this._scene.getEngine());
+    const direction = keyLight.direction.clone();
+    const intensity = keyLight.intensity;
+    const results: LightmapKeyframe[] = [];
+    try {
+      await copier.whenReadyAsync();
+      const sorted = [...keyframes].sort((a, b) => a.time - b.time);
+      for (const [index, keyframe] of sorted.entries()) {
+        keyLight.direction.copyFrom(keyframe.direction);
+        keyLight.intensity = keyframe.intensity ?? intensity;
+        await this.render({ signal });
+
+        const pages = this._pages.map((page, pageIndex) => {
+          const target = this._createPingPongRTT(
+            `keyframe${index}_page${pageIndex}`
+          );
+          copier.copy(this._getOutputRTT(page), target);
+          return target;
+        });
+        const result = { time: keyframe.time, pages };
+        results.push(result);
+        onKeyframe?.(result, index);
+      }
+    } finally {
+      keyLight.direction.copyFrom(direction);
+      keyLight.intensity = intensity;
+      if (copier !== this._textureCopier) {
+        copier.dispose();
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Re-bakes after the given meshes have moved. The atlas layout is kept, and
+   * only the atlas regions of the moved meshes and of the baked meshes inside
+   * their shadow volumes, before or after the move, are accumulated again.
+   * Ambient occlusion bakes use the occlusion radius around the meshes.
+   * Instances sharing a source mesh are accumulated again together.
+   */
+  public updateMeshes(
+    meshes: BABYLON.AbstractMesh[],
+    options: BakeRenderOptions = {}
+  ): BakeJob {
+    const extent = this._scene.getWorldExtends();
+    const length = extent.max.subtract(extent.min).length();
+
+    const casterBounds: Bounds[] = [];
+    for (const mesh of meshes) {
+      const previous = this._meshBounds.get(mesh.uniqueId);
+      if (previous) {
+        casterBounds.push(previous);
+      }
+      casterBounds.push(getWorldBounds(mesh));
+    }
+    const occlusionRadius = this._occlusionSampler
+      ? (this._occlusionSampler.options.radius ?? length)
+      : null;
+    const shadowBounds =
+      occlusionRadius !== null
+        ? casterBounds.map((bounds) =>
+            computeOcclusionBounds(bounds, occlusionRadius)
+          )
+        : this._lights.flatMap(({ light, shape }) =>
+            casterBounds.map((bounds) =>
+              computeShadowBounds(
+                bounds,
+                light,
+                shape,
+                length,
+                this._options.jitterRadius
+              )
+            )
+          );
+
+    // The bake materials belong to the meshes rendering the instances
+    const dirtyMeshes = new Set(
+      meshes.map((mesh) => getLightmapRenderingMesh(mesh).uniqueId)
+    );
+    for (const { mesh } of this._bakedMeshes.values()) {
+      const bounds = getWorldBounds(mesh);
+      if (shadowBounds.some((shadow) => boundsIntersect(shadow, bounds))) {
+        dirtyMeshes.add(getLightmapRenderingMesh(mesh).uniqueId);
+      }
+    }
+
+    return this._startBake(dirtyMeshes, options);
+  }
+
+  /**
+   * Removes meshes from the bake. Their atlas regions stay reserved, and
+   * their materials and geometries are restored once no baked mesh uses them
+   * anymore, the geometries unless `keepGeneratedUVs` is set.
+   */
+  public removeMeshes(meshes: BABYLON.AbstractMesh[]): void {
+    for (const mesh of meshes) {
+      const bakedMesh = this._bakedMeshes.get(mesh.uniqueId);
+      if (!bakedMesh) continue;
+
+      const page = this._pages[bakedMesh.page];
+      const targets: [
+        BABYLON.RenderTargetTexture,
+        Map<number, BABYLON.Material>,
+      ][] = [
+        [page.pingPongRTT1, page.meshMaterialRTT1Map],
+        [page.pingPongRTT2, page.meshMaterialRTT2Map],
+      ];
+      const renderingMesh = getLightmapRenderingMesh(mesh);
+      for (const [rtt, materialMap] of targets) {
+        const index = rtt.renderList!.indexOf(mesh);
+        if (index !== -1) {
+          rtt.renderList!.splice(index, 1);
+        }
+        // Other instances may still render with the material
+        const rendered = rtt.renderList!.some(
+          (other) => getLightmapRenderingMesh(other) === renderingMesh
+        );
+        if (!rendered) {
+          rtt.setMaterialForRendering(renderingMesh, undefined);
+          materialMap.get(renderingMesh.uniqueId)?.dispose();
+          materialMap.delete(renderingMesh.uniqueId);
+        }
+      }
+      this._bakedMeshes.delete(mesh.uniqueId);
+
+      const renderingMeshes = [...this._bakedMeshes.values()].map(
+        (other) => getLightmapRenderingMesh(other.mesh) as BABYLON.Mesh
+      );
+      const { geometry } = renderingMesh as BABYLON.Mesh;
+      const snapshot = geometry && this._geometrySnapshots.get(geometry);
+      const geometryInUse = renderingMeshes.some(
+        (other) => other.geometry === geometry
+      );
+      if (snapshot && !geometryInUse) {
+        if (!this._options.keepGeneratedUVs) {
+          restoreGeometry(snapshot);
+        }
+        this._geometrySnapshots.delete(geometry);
+      }
+      if (!renderingMeshes.includes(renderingMesh as BABYLON.Mesh)) {
+        removeLightmapScaleOffsets(renderingMesh as BABYLON.Mesh);
+      }
+
+      const material = mesh.material;
+      const materialInUse = [...this._bakedMeshes.values()].some(
+        (other) => other.mesh.material === material
+      );
+      const entry = material && this._materialBindings.get(material.uniqueId);
+      if (entry && !materialInUse) {
+        this._restoreMaterialBinding(entry);
+        this._materialBindings.delete(material!.uniqueId);
+      }
+
+      this._disabledShadowCasters = this._disabledShadowCasters.filter(
+        (caster) => {
+          if (caster.mesh !== mesh) return true;
+          if (!caster.renderList.includes(mesh)) {
+            caster.renderList.push(mesh);
+          }
+          return false;
+        }
+      );
+    }
+  }
+
+  /**
+   * Returns the accumulated shadow map of an atlas page, or of the page the
+   * given mesh was packed into. Defaults to the first page.
+   */
+  public getShadowMap(
+    target: BABYLON.AbstractMesh | number = 0
+  ): BABYLON.BaseTexture {
+    const pageIndex =
+      typeof target === "number" ? target : this.getMeshPage(target);
+    if (pageIndex === undefined) {
+      throw new Error(
+        `Mesh ${(target as BABYLON.AbstractMesh).name} is not part of the progressive shadow map.`
+      );
+    }
+
+    const page = this._pages[pageIndex];
+    if (!page) {
+      throw new Error(`Shadow map page ${pageIndex} does not exist.`);
+    }
+
+    return this._getOutputRTT(page);
+  }
+
+  /**
+   * Reads back the accumulated shadow map of a page, or of a mesh's page,
+   * resolves it to `outputPrecision` and encodes it as an image file.
+   */
+  public async exportShadowMap(
+    format: LightmapExportFormat = "png",
+    target: BABYLON.AbstractMesh | number = 0
+  ): Promise<Blob> {
+    const pixels = resolveLightmapPrecision(
+      await readLightmapPixels(this.getShadowMap(target)),
+      this.outputPrecision
+    );
+    const buffer = await encodeLightmap(pixels, format);
+
+    return new Blob([buffer], { type: LIGHTMAP_MIME_TYPES[format] });
+  }
+
+  public getMeshPage(mesh: BABYLON.AbstractMesh): number | undefined {
+    return this._bakedMeshes.get(mesh.uniqueId)?.page;
+  }
+
+  /**
+   * Captures the current bake, i.e. the shadow map of every page, the
+   * lightmap UVs of every mesh and the settings used, in a JSON serializable
+   * manifest that `applyBakeManifest` can load without re-baking.
+   */
+  public async createBakeManifest({
+    pageImageUrl = null,
+  }: BakeManifestOptions = {}): Promise<BakeManifest> {
+    if (!this._atlasLayout) {
+      throw new Error(
+        "No meshes have been added to the progressive shadow map."
+      );
+    }
+
+    const { resolution } = this._options;
+    const pages = await Promise.all(
+      this._pages.map(async (page, pageIndex) => {
+        if (pageImageUrl) {
+          return {
+            image: pageImageUrl(pageIndex),
+            width: resolution,
+            height: resolution,
+          };
+        }
+
+        const pixels = await readLightmapPixels(this._getOutputRTT(page));
+        const png = await encodePNG(pixels);
+        return {
+          image: arrayBufferToDataUrl(png, LIGHTMAP_MIME_TYPES.png),
+          width: pixels.width,
+          height: pixels.height,
+        };
+      })
+    );
+
+    const meshes = [...this._bakedMeshes.values()].map(
+      ({ mesh, page, uvs, geometryHash, unwrap, scaleOffsets }) => ({
+        name: mesh.name,
+        id: mesh.id,
+        page,
+        uvs: Array.from(uvs),
+        geometryHash,
+        ...(unwrap && {
+          vertexRemap: Array.from(unwrap.vertexRemap),
+          indices: Array.from(unwrap.indices),
+        }),
+        ...(scaleOffsets && {
+          lightmapScaleOffsets: Array.from(scaleOffsets),
+        }),
+      })
+    );
+
+    const { sampleSequence } = this._options;
+    return {
+      version: BAKE_MANIFEST_VERSION,
+      settings: {
+        bakeMode: this._options.bakeMode,
+        resolution: this._options.resolution,
+        uvChannel: this._options.uvChannel,
+        uvGenerationMode: this._options.uvGenerationMode,
+        texelsPerUnit: this._atlasLayout.texelsPerUnit,
+        padding: this._options.padding,
+        blendWindow: this._options.blendWindow,
+        blendMode: this._options.blendMode,
+        sampleSequence:
+          typeof sampleSequence === "string" ? sampleSequence : "custom",
+        seed: this._options.seed,
+      },
+      pages,
+      meshes,
+    };
+  }
+
+  /**
+   * Denoises, stitches the seams of and dilates the shadow map of every page,
+   * see `ShadowMapPostProcessOptions`. The result is returned by
+   * `getShadowMap` until the next bake starts, while the accumulated samples
+   * are kept for later re-bakes.
+   */
+  public async postProcess({
+    denoise = this._options.denoise,
+    stitchSeams = this._options.stitchSeams,
+    dilation = this._options.dilation,
+  }: ShadowMapPostProcessOptions = {}): Promise<void> {
+    const { resolution, uvChannel } = this._options;
+    this._atlasGuides ??= new AtlasGuides(this._scene, resolution, uvChannel);
+
+    for (const [pageIndex, page] of this._pages.entries()) {
+      page.isPostProcessed = false;
+      const meshes = page.pingPongRTT1.renderList ?? [];
+      if (meshes.length === 0) continue;
+
+      page.postProcessedRTT ??= this._createPingPongRTT(
+        `page${pageIndex}_postProcessedRTT`
+      );
+      const output = page.postProcessedRTT;
+      let current: BABYLON.RenderTargetTexture = this._getReadRTT(page);
+      await this._atlasGuides.render(meshes);
+
+      if (denoise) {
+        this._denoiser ??= new ShadowMapDenoiser(this._scene, resolution);
+        await this._denoiser.denoise(
+          current,
+          output,
+          this._atlasGuides,
+          page.chartRects,
+          this._atlasLayout?.texelsPerUnit ?? 0,
+          denoise
+        );
+        current = output;
+      }
+
+      if (stitchSeams) {
+        const pixels = await readLightmapPixels(current);
+        // Instances share the seams of their UVs
+        const sharedSeams = new Map<BABYLON.AbstractMesh, Float32Array>();
+        for (const mesh of meshes) {
+          const renderingMesh = getLightmapRenderingMesh(mesh);
+          let seams = sharedSeams.get(renderingMesh);
+          if (!seams) {
+            seams = findLightmapSeams(renderingMesh, uvChannel);
+            sharedSeams.set(renderingMesh, seams);
+          }
+          const scaleOffsets = this._bakedMeshes.get(
+            mesh.uniqueId
+          )?.scaleOffsets;
+          stitchLightmapSeams(
+            pixels,
+            scaleOffsets ? transformLightmapSeams(seams, scaleOffsets) : seams
+          );
+        }
+        this._dilator ??= new ShadowMapDilator(this._scene, resolution);
+        await this._dilator.writePixels(pixels, output);
+        current = output;
+      }
+
+      if (dilation > 0) {
+        this._dilator ??= new ShadowMapDilator(this._scene, resolution);
+        await this._dilator.dilate(
+          current,
+          output,
+          this._atlasGuides.positions,
+          dilation
+        );
+        current = output;
+      }
+
+      page.isPostProcessed = current === output;
+    }
+
+    if (this._materialBindings.size > 0) {
+      this._applyMaterialLightmaps();
+    }
+  }
+
+  /**
+   * Assigns the accumulated shadow map to the material of every baked mesh,
+   * see `bindMaterialLightmap`, and with `disableShadowCasting` removes the
+   * meshes from the scene's shadow generators. A material shared by meshes on
+   * different atlas pages keeps the first mesh's page.
+   */
+  public applyToMaterials(): void {
+    this._applyMaterialLightmaps();
+    if (this._options.disableShadowCasting) {
+      this._disableShadowCasting();
+    }
+    if (this._options.bakeMode === "irradiance") {
+      this._excludeBakedLighting();
+    }
+  }
+
+  /**
+   * Undoes `applyToMaterials`, restoring the materials' own lightmap settings
+   * and the shadow casters.
+   */
+  public restoreMaterials(): void {
+    for (const entry of this._materialBindings.values()) {
+      this._restoreMaterialBinding(entry);
+    }
+    this._materialBindings.clear();
+    this._restoreShadowCasting();
+    this._restoreLightExclusions();
+  }
+
+  /**
+   * Ends the bake: restores the materials, shadow casters and lights it
+   * changed, and the geometries of the baked meshes unless
+   * `keepGeneratedUVs` is set, then disposes the resources it created. The
+   * meshes and materials of the scene are left in place.
+   */
+  public dispose(): void {
+    this._currentJob?.cancel();
+    this.restoreMaterials();
+    if (!this._options.keepGeneratedUVs) {
+      this._geometrySnapshots.forEach((snapshot) => restoreGeometry(snapshot));
+    }
+    this._geometrySnapshots.clear();
+    this._bakedMeshes.clear();
+
+    for (const page of this._pages) {
+      for (const materialMap of [
+        page.meshMaterialRTT1Map,
+        page.meshMaterialRTT2Map,
+      ]) {
+        materialMap.forEach((material) => material.dispose());
+        materialMap.clear();
+      }
+      page.pingPongRTT1.dispose();
+      page.pingPongRTT2.dispose();
+      page.postProcessedRTT?.dispose();
+      page.directRTT?.dispose();
+      page.bounceSourceRTT?.dispose();
+      page.bounceMaterial?.dispose();
+      page.bounceScaleOffsetMaterial?.dispose();
+    }
+    this._atlasGuides?.dispose();
+    this._denoiser?.dispose();
+    this._dilator?.dispose();
+    this._occlusionSampler?.dispose();
+    this._bounceSampler?.dispose();
+    this._bounceOccluderMaterial?.dispose();
+    this._bounceCutoutMaterials.forEach((material) => material.dispose());
+    this._bounceCutoutMaterials.clear();
+    this._shadowTransmission?.dispose();
+    this._textureCopier?.dispose();
+    this._afterRenderObservable.clear();
+    this._afterBlendIterationObservable.clear();
+  }
+
+  /**
+   * Accumulates the light samples into the shadow maps. With `dirtyMeshes`,
+   * only those meshes render, over a copy of the previous result, so that
+   * only the dirty atlas regions start over.
+   */
+  private _startBake(
+    dirtyMeshes: Set<number> | null,
+    { signal }: BakeRenderOptions
+  ): BakeJob {
+    const scene = this._scene;
+    if (!scene) {
+      throw new Error(
+        "Scene not available for progressive shadow map rendering"
+      );
+    }
+    if (this._currentJob && !this._currentJob.isFinished) {
+      throw new Error(
+        "A progressive shadow map bake is already running, cancel it first."
+      );
+    }
+
+    // The lights are jittered around, and restored to, where they are now
+    this._lights.forEach((bakeLight) => this._captureOriginalLight(bakeLight));
+
+    // The baked shadows come from the shadow generators, and the baked
+    // lighting from the lights
+    this._restoreShadowCasting();
+    this._restoreLightExclusions();
+    this._prepareShadowGenerators();
+    this._recordMeshBounds();
+    this._occlusionSampler?.updateOccluders();
+    if (this._bounceSampler) {
+      // Instances reflect the light of the page of the first baked instance
+      const bouncePages = new Map<number, ShadowMapPage>();
+      for (const { mesh, page } of this._bakedMeshes.values()) {
+        const id = getLightmapRenderingMesh(mesh).uniqueId;
+        if (!bouncePages.has(id)) {
+          bouncePages.set(id, this._pages[page]);
+        }
+      }
+      this._bounceSampler.updateOccluders((mesh) =>
+        this._getBounceMaterial(mesh, bouncePages.get(mesh.uniqueId))
+      );
+    }
+    this._pages.forEach((page) => (page.isPostProcessed = false));
+    const isRendered = (mesh: BABYLON.AbstractMesh) =>
+      !dirtyMeshes || dirtyMeshes.has(getLightmapRenderingMesh(mesh).uniqueId);
+    let previousResultCopied = !dirtyMeshes;
+    if (dirtyMeshes) {
+      this._textureCopier ??= new TextureCopier(scene.getEngine());
+      this._setRenderFilter(isRendered);
+    }
+
+    const { waitBetweenRenders } = this._options;
+    const schedule =
+      dirtyMeshes?.size === 0
+        ? []
+        : this._occlusionSampler
+          ? this._buildOcclusionSchedule()
+          : this._buildLightSchedule();
+    const lightIterations = schedule.length;
+    for (let bounce = 1; bounce <= this._getBounceCount(); bounce++) {
+      if (schedule.length > 0) {
+        schedule.push(...this._buildBounceSchedule(bounce));
+      }
+    }
+    const totalIterations = schedule.length;
+    let currentIteration = 0;
+    let startTime = performance.now();
+
+    const stop = () => {
+      scene.onBeforeRenderObservable.remove(renderObserver);
+      this._lights.forEach((bakeLight) =>
+        this._restoreOriginalLight(bakeLight)
+      );
+      this._restoreShadowGenerators();
+      if (dirtyMeshes) {
+        this._setRenderFilter(null);
+      }
+    };
+    const renderObserver = scene.onBeforeRenderObservable.add(() => {
+      if (job.state !== "running") {
+        return;
+      }
+      if (performance.now() - startTime < waitBetweenRenders) {
+        return;
+      }
+
+      if (currentIteration >= totalIterations) {
+        stop();
+        this._finishBake(job);
+        return;
+      }
+
+      const lightSample = schedule[currentIteration];
+      const { iteration, bounce } = lightSample;
+      if (lightSample.lightIndex !== -1) {
+        this._applyLightSample(lightSample);
+      }
+      const transmission =
+        lightSample.lightIndex !== -1 &&
+        this._shadowTransmission?.setLight(
+          this._lights[lightSample.lightIndex].light
+        )
+          ? this._shadowTransmission
+          : null;
+      const channelWeights = this._getChannelWeights(lightSample);
+      const sampleScale = this._getSampleScale(lightSample, lightIterations);
+
+      const pages = this._pages.filter((page) =>
+        this._getWriteRTT(page).renderList?.some(isRendered)
+      );
+      for (const page of pages) {
+        const writeRTT = this._getWriteRTT(page);
+        writeRTT.renderList!.filter(isRendered).forEach((mesh) => {
+          const mat = this._getWriteRTTMeshMaterial(page, mesh);
+          const plugin = mat?.progressiveShadowMapPlugin;
+
+          if (plugin) {
+            if (iteration <= 2) {
+              plugin.isFirstIteration = iteration === 0;
+            }
+            plugin.blendFactor = this._getBlendWeight(iteration);
+            plugin.sampleScale = sampleScale;
+            if (channelWeights) {
+              plugin.channelWeights = channelWeights;
+            }
+            plugin.bounce = bounce > 0;
+            plugin.shadowTransmission = transmission;
+          }
+        });
+      }
+
+      const sampler =
+        bounce > 0 ? this._bounceSampler : this._occlusionSampler;
+
+      // Wait for the shaders to compile, the sample is applied again next frame
+      const ready =
+        (sampler?.isReady() ?? true) &&
+        ((bounce === 0 && previousResultCopied) ||
+          this._textureCopier!.isReady()) &&
+        (transmission?.isReady() ?? true) &&
+        pages.every((page) => this._getWriteRTT(page).isReadyForRendering());
+      if (!ready) {
+        return;
+      }
+
+      if (!previousResultCopied) {
+        // The targets take turns, and both keep the regions left clean
+        for (const page of this._pages) {
+          this._textureCopier!.copy(
+            this._getReadRTT(page),
+            this._getWriteRTT(page)
+          );
+        }
+        previousResultCopied = true;
+      }
+      if (bounce > 0 && iteration === 0) {
+        // Freeze the result the bounce gathers from, and the direct lighting
+        for (const page of pages) {
+          if (bounce === 1) {
+            this._textureCopier!.copy(this._getReadRTT(page), page.directRTT!);
+          }
+          this._textureCopier!.copy(
+            this._getReadRTT(page),
+            page.bounceSourceRTT!
+          );
+        }
+      }
+      if (sampler) {
+        sampler.render(this._getOcclusionDirection(lightSample));
+      }
+      transmission?.render();
+
+      for (const page of pages) {
+        this._getWriteRTT(page).render();
+      }
+
+      currentIteration++;
+      const progress = job._reportIteration();
+
+      if (pages.length > 0) {
+        startTime = performance.now();
+
+        this._flipRTTs();
+        if (this._options.applyToMaterials) {
+          this._applyMaterialLightmaps();
+        }
+
+        this._afterBlendIterationObservable.notifyObservers(progress);
+      }
+    });
+
+    const job = new BakeJob(
+      totalIterations,
+      {
+        onStop: stop,
+        // The paused scene renders with the lights where the bake found them
+        onPause: () =>
+          this._lights.forEach((bakeLight) =>
+            this._restoreOriginalLight(bakeLight)
+          ),
+        onResume: () => {
+          const lightSample = schedule[currentIteration];
+          if (lightSample && lightSample.lightIndex !== -1) {
+            this._applyLightSample(lightSample);
+          }
+        },
+      },
+      signal
+    );
+    this._currentJob = job;
+    return job;
+  }
+
+  private async _finishBake(job: BakeJob): Promise<void> {
+    const { denoise, stitchSeams, dilation } = this._options;
+    if (denoise || stitchSeams || dilation > 0) {
+      try {
+        await this.postProcess();
+      } catch (error) {
+        job.cancel(error);
+        return;
+      }
+      if (job.isFinished) {
+        return;
+      }
+    }
+
+    if (this._options.applyToMaterials) {
+      this.applyToMaterials();
+    }
+    this._afterRenderObservable.notifyObservers();
+    job._complete();
+  }
+
+  private _createPage(pageIndex: number): ShadowMapPage {
+    return {
+      pingPongRTT1: this._createPingPongRTT(`page${pageIndex}_pingPongRTT1`),
+      pingPongRTT2: this._createPingPongRTT(`page${pageIndex}_pingPongRTT2`),
+      meshMaterialRTT1Map: new Map(),
+      meshMaterialRTT2Map: new Map(),
+      chartRects: [],
+      postProcessedRTT: null,
+      isPostProcessed: false,
+      ...this._createBounceTargets(pageIndex),
+    };
+  }
+
+  private _createBounceTargets(
+    pageIndex: number
+  ): Pick<
+    ShadowMapPage,
+    | "directRTT"
+    | "bounceSourceRTT"
+    | "bounceMaterial"
+    | "bounceScaleOffsetMaterial"
+  > {
+    if (!this._bounceSampler) {
+      return {
+        directRTT: null,
+        bounceSourceRTT: null,
+        bounceMaterial: null,
+        bounceScaleOffsetMaterial: null,
+      };
+    }
+
+    const bounceSourceRTT = this._createPingPongRTT(
+      `page${pageIndex}_bounceSourceRTT`
+    );
+    return {
+      directRTT: this._createPingPongRTT(`page${pageIndex}_directRTT`),
+      bounceSourceRTT,
+      bounceMaterial: createBounceRadianceMaterial(
+        this._scene,
+        this._options.uvChannel,
+        bounceSourceRTT
+      ),
+      bounceScaleOffsetMaterial: createBounceRadianceMaterial(
+        this._scene,
+        this._options.uvChannel,
+        bounceSourceRTT,
+        true
+      ),
+    };
+  }
+
+  private _createPingPongRTT(name: string): BABYLON.RenderTargetTexture {
+    const rtt = new BABYLON.RenderTargetTexture(
+      name,
+      this._options.resolution,
+      this._scene,
+      false,
+      true,
+      getTextureType(this._accumulationPrecision)
+    );
+    rtt.wrapU = BABYLON.Texture.CLAMP_ADDRESSMODE;
+    rtt.wrapV = BABYLON.Texture.CLAMP_ADDRESSMODE;
+    rtt.activeCamera = null; // Disable frustum culling
+    rtt.coordinatesIndex = this._options.uvChannel - 1;
+    rtt.renderList = [];
+    rtt.customIsReadyFunction = isLightmapMeshReady;
+
+    return rtt;
+  }
+
+  private _addMeshToPage(
+    mesh: BABYLON.AbstractMesh,
+    material: BABYLON.Material,
+    page: ShadowMapPage
+  ): void {
+    page.pingPongRTT1.renderList!.push(mesh);
+    page.pingPongRTT2.renderList!.push(mesh);
+
+    // Instances render with the materials of their source mesh
+    const renderingMesh = getLightmapRenderingMesh(mesh);
+    if (page.meshMaterialRTT1Map.has(renderingMesh.uniqueId)) {
+      return;
+    }
+
+    const matRTT1 = this._createProgressiveShadowMapMaterial(material);
+    page.meshMaterialRTT1Map.set(renderingMesh.uniqueId, matRTT1);
+    page.pingPongRTT1.setMaterialForRendering(renderingMesh, matRTT1);
+
+    const matRTT2 = this._createProgressiveShadowMapMaterial(material);
+    page.meshMaterialRTT2Map.set(renderingMesh.uniqueId, matRTT2);
+    page.pingPongRTT2.setMaterialForRendering(renderingMesh, matRTT2);
+
+    matRTT1.progressiveShadowMapPlugin?.setPreviousShadowMap(
+      page.pingPongRTT2
+    );
+    matRTT2.progressiveShadowMapPlugin?.setPreviousShadowMap(
+      page.pingPongRTT1
+    );
+
+    if (page.directRTT) {
+      matRTT1.progressiveShadowMapPlugin?.setDirectShadowMap(page.directRTT);
+      matRTT2.progressiveShadowMapPlugin?.setDirectShadowMap(page.directRTT);
+    }
+
+    matRTT1.progressiveShadowMapPlugin!.isFirstIteration = true;
+    matRTT2.progressiveShadowMapPlugin!.isFirstIteration = false;
+  }
+
+  private _applyMaterialLightmaps(): void {
+    const newlyBound = new Set<number>();
+
+    for (const { mesh, page } of this._bakedMeshes.values()) {
+      const material = mesh.material;
+      if (!material) continue;
+
+      let entry = this._materialBindings.get(material.uniqueId);
+      if (!entry) {
+        const { bakeMode, nodeMaterialLightmapBlock } = this._options;
+        entry = {
+          binding:
+            bakeMode === "ambientOcclusion"
+              ? bindMaterialAmbientOcclusion(
+                  material,
+                  nodeMaterialLightmapBlock
+                )
+              : bindMaterialLightmap(
+                  material,
+                  nodeMaterialLightmapBlock,
+                  bakeMode === "shadow"
+                ),
+          page,
+        };
+        this._materialBindings.set(material.uniqueId, entry);
+        newlyBound.add(material.uniqueId);
+
+        if (!entry.binding) {
+          console.warn(
+            `Material ${material.name} of mesh ${mesh.name} does not support lightmaps.`
+          );
+        }
+      } else if (entry.page !== page) {
+        if (newlyBound.has(material.uniqueId)) {
+          console.warn(
+            `Material ${material.name} is shared by meshes on different shadow map pages, mesh ${mesh.name} will use page ${entry.page}.`
+          );
+        }
+        continue;
+      }
+
+      if (
+        entry.binding &&
+        hasLightmapScaleOffset(mesh) &&
+        !material.lightmapScaleOffsetPlugin?.enabled &&
+        !enableLightmapScaleOffset(material, this._options.uvChannel)
+      ) {
+        console.warn(
+          `Material ${material.name} of mesh ${mesh.name} does not support lightmap scale and offsets.`
+        );
+      }
+      entry.binding?.apply(this._getOutputRTT(this._pages[page]));
+    }
+  }
+
+  private _restoreMaterialBinding({ binding }: MaterialBakeBinding): void {
+    binding?.restore();
+    const plugin = binding?.material.lightmapScaleOffsetPlugin;
+    if (plugin) {
+      plugin.enabled = false;
+    }
+  }
+
+  private _disableShadowCasting(): void {
+    const bakedMeshes = new Set(this.meshes);
+
+    for (const light of this._scene.lights) {
+      for (const generator of light.getShadowGenerators()?.values() ?? []) {
+        const renderList = generator.getShadowMap()?.renderList;
+        if (!renderList) continue;
+
+        for (let i = renderList.length - 1; i >= 0; i--) {
+          if (bakedMeshes.has(renderList[i])) {
+            this._disabledShadowCasters.push({
+              renderList,
+              mesh: renderList[i],
+            });
+            renderList.splice(i, 1);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Irradiance bakes already hold the light of the baked lights, which stop
+   * lighting the baked meshes until `_restoreLightExclusions`.
+   */
+  private _excludeBakedLighting(): void {
+    for (const { light } of this._lights) {
+      for (const mesh of this.meshes) {
+        if (!light.excludedMeshes.includes(mesh)) {
+          light.excludedMeshes.push(mesh);
+          this._excludedLightMeshes.push({ light, mesh });
+        }
+      }
+    }
+  }
+
+  private _restoreLightExclusions(): void {
+    for (const { light, mesh } of this._excludedLightMeshes) {
+      const index = light.excludedMeshes.indexOf(mesh);
+      if (index !== -1) {
+        light.excludedMeshes.splice(index, 1);
+      }
+    }
+    this._excludedLightMeshes = [];
+  }
+
+  private _recordMeshBounds(): void {
+    this._meshBounds.clear();
+    for (const mesh of this._scene.meshes) {
+      this._meshBounds.set(mesh.uniqueId, getWorldBounds(mesh));
+    }
+  }
+
+  private _restoreShadowCasting(): void {
+    for (const { renderList, mesh } of this._disabledShadowCasters) {
+      if (!renderList.includes(mesh)) {
+        renderList.push(mesh);
+      }
+    }
+    this._disabledShadowCasters = [];
+  }
+
+  // The generators honour the cutouts of `getCasterCutout`, and leave the
+  // transparent casters the transmission map supports to it
+  private _prepareShadowGenerators(): void {
+    this._restoreShadowGenerators();
+    for (const { light } of this._lights) {
+      const transmissionGenerator = this._shadowTransmission
+        ? getTransmissionShadowGenerator(light)
+        : null;
+      for (const generator of light.getShadowGenerators()?.values() ?? []) {
+        if (generator instanceof BABYLON.ShadowGenerator) {
+          const restore = prepareShadowGenerator(
+            generator,
+            generator === transmissionGenerator
+          );
+          this._shadowGeneratorRestores.push(restore);
+        }
+      }
+    }
+  }
+
+  private _restoreShadowGenerators(): void {
+    this._shadowGeneratorRestores.forEach((restore) => restore());
+    this._shadowGeneratorRestores = [];
+  }
+
+  /**
+   * Material rendering `mesh` into the bounce depth maps, reflecting the
+   * light of its `page`, and cutting out the texels of alpha tested meshes.
+   */
+  private _getBounceMaterial(
+    mesh: BABYLON.AbstractMesh,
+    page: ShadowMapPage | undefined
+  ): BABYLON.ShaderMaterial {
+    const scaleOffset = !!page && hasLightmapScaleOffset(mesh);
+    const cutout = getCasterCutout(mesh);
+    if (!cutout) {
+      const material = scaleOffset
+        ? page!.bounceScaleOffsetMaterial
+        : page?.bounceMaterial;
+      return material ?? this._bounceOccluderMaterial!;
+    }
+
+    const pageIndex = page ? this._pages.indexOf(page) : -1;
+    const key = `${pageIndex}_${scaleOffset}_${mesh.material!.uniqueId}`;
+    let material = this._bounceCutoutMaterials.get(key);
+    if (!material) {
+      material = createBounceRadianceMaterial(
+        this._scene,
+        this._options.uvChannel,
+        page?.bounceSourceRTT ?? null,
+        scaleOffset,
+        cutout
+      );
+      this._bounceCutoutMaterials.set(key, material);
+    }
+    return material;
+  }
+
+  private _getWriteRTT(page: ShadowMapPage): BABYLON.RenderTargetTexture {
+    return this._useAlternateRTT ? page.pingPongRTT2 : page.pingPongRTT1;
+  }
+
+  private _getWriteRTTMeshMaterial(
+    page: ShadowMapPage,
+    mesh: BABYLON.AbstractMesh
+  ): BABYLON.Material | undefined {
+    const { uniqueId } = getLightmapRenderingMesh(mesh);
+    return this._useAlternateRTT
+      ? page.meshMaterialRTT2Map.get(uniqueId)
+      : page.meshMaterialRTT1Map.get(uniqueId);
+  }
+
+  private _getReadRTT(page: ShadowMapPage): BABYLON.RenderTargetTexture {
+    return this._useAlternateRTT ? page.pingPongRTT1 : page.pingPongRTT2;
+  }
+
+  private _getOutputRTT(page: ShadowMapPage): BABYLON.RenderTargetTexture {
+    return page.isPostProcessed && page.postProcessedRTT
+      ? page.postProcessedRTT
+      : this._getReadRTT(page);
+  }
+
+  /**
+   * Restricts the ping-pong targets to the meshes passing `filter`, and keeps
+   * them from clearing the atlas regions of the others. `null` lifts it.
+   */
+  private _setRenderFilter(
+    filter: ((mesh: BABYLON.AbstractMesh) => boolean) | null
+  ): void {
+    for (const page of this._pages) {
+      for (const rtt of [page.pingPongRTT1, page.pingPongRTT2]) {
+        rtt.getCustomRenderList = filter
+          ? () => rtt.renderList!.filter(filter)
+          : null;
+        rtt.skipInitialClear = !!filter;
+      }
+    }
+  }
+
+  private _flipRTTs(): void {
+    this._useAlternateRTT = !this._useAlternateRTT;
+  }
+
+  private _createProgressiveShadowMapMaterial(
+    originalMaterial: BABYLON.Material
+  ): BABYLON.Material {
+    const material = originalMaterial.clone("uv_" + originalMaterial.name);
+    if (!material) {
+      throw new Error("Failed to clone material for UV unwrapping.");
+    }
+
+    material.backFaceCulling = false; // Prevent culling in UV space
+    // The bake plugin applies the lightmap scale and offset itself
+    if (material.lightmapScaleOffsetPlugin) {
+      material.lightmapScaleOffsetPlugin.enabled = false;
+    }
+    material.progressiveShadowMapPlugin =
+      new ProgressiveShadowMapMaterialPlugin(material, {
+        blendFactor: this._options.blendFactor,
+        uvChannel: this._options.uvChannel,
+        lightChannels: this._options.separateLightChannels,
+        ambientOcclusion: !!this._occlusionSampler,
+        bentNormals: this._occlusionSampler?.options.bentNormals,
+      });
+    material.progressiveShadowMapPlugin.occlusionSample =
+      (this._occlusionSampler ?? this._bounceSampler)?.sample ?? null;
+
+    return material;
+  }
+
+  /**
+   * Snapshots the geometries of the meshes baked for the first time, before
+   * their lightmap UVs are written, and warns about the UVs they replace.
+   */
+  private _captureGeometries(meshes: BABYLON.AbstractMesh[]): void {
+    const { uvChannel, uvGenerationMode, keepGeneratedUVs } = this._options;
+    const uvKind = getUVKind(uvChannel);
+
+    for (const mesh of meshes) {
+      if (!this._isBakeable(mesh)) continue;
+      const { geometry } = getLightmapRenderingMesh(mesh) as BABYLON.Mesh;
+      if (!geometry || this._geometrySnapshots.has(geometry)) continue;
+
+      if (geometry.isVerticesDataPresent(uvKind)) {
+        console.warn(
+          `Mesh ${mesh.name} already has UVs in channel ${uvChannel}, the lightmap UVs replace them${keepGeneratedUVs ? "" : " until the shadow map is disposed"}.`
+        );
+      }
+      this._geometrySnapshots.set(
+        geometry,
+        captureGeometry(geometry, uvKind, uvGenerationMode !== "reuseUV1")
+      );
+    }
+  }
+
+  private _isBakeable(mesh: BABYLON.AbstractMesh): boolean {
+    return !!mesh && !!mesh.getVerticesData;
+  }
+
+  /**
+   * Charts every bakeable mesh. Geometries shared by several meshes are
+   * charted once, in the world units of the mesh rendering them, and packed
+   * into a layout of their own that every instance places as one chart.
+   */
+  private _createMeshCharts(
+    meshes: BABYLON.AbstractMesh[]
+  ): (MeshCharts | null)[] {
+    const meshCharts = meshes.map((mesh) =>
+      this._isBakeable(mesh) && !sharesLightmapGeometry(mesh)
+        ? this._createCharts(mesh)
+        : null
+    );
+
+    const groups = new Map<
+      BABYLON.Geometry,
+      {
+        charts: MeshCharts | null;
+        referenceScale: number;
+        meshIndices: number[];
+        scales: number[][];
+      }
+    >();
+    meshes.forEach((mesh, meshIndex) => {
+      if (!this._isBakeable(mesh) || !sharesLightmapGeometry(mesh)) return;
+      const renderingMesh = getLightmapRenderingMesh(mesh) as BABYLON.Mesh;
+      if (!renderingMesh.geometry) return;
+
+      let group = groups.get(renderingMesh.geometry);
+      if (!group) {
+        group = {
+          charts: this._createCharts(renderingMesh),
+          referenceScale: getMatrixScale(
+            renderingMesh.computeWorldMatrix(true)
+          ),
+          meshIndices: [],
+          scales: [],
+        };
+        groups.set(renderingMesh.geometry, group);
+      }
+      group.meshIndices.push(meshIndex);
+      group.scales.push(getLightmapInstanceScales(mesh, group.referenceScale));
+    });
+
+    // The shared layouts are padded for the smallest instance at the
+    // density the atlas is expected to get
+    const { resolution, texelsPerUnit, padding } = this._options;
+    let area = getChartArea(meshCharts.flatMap((entry) => entry?.charts ?? []));
+    for (const { charts, scales } of groups.values()) {
+      const chartArea = getChartArea(charts?.charts ?? []);
+      for (const scale of scales.flat()) {
+        area += chartArea * scale * scale;
+      }
+    }
+    const density = texelsPerUnit ?? estimateTexelsPerUnit(area, resolution);
+
+    for (const [geometry, group] of groups) {
+      const { charts, scales, meshIndices, referenceScale } = group;
+      if (!charts) continue;
+
+      const minScale = scales
+        .flat()
+        .reduce(
+          (min, scale) => (scale > 0 ? Math.min(min, scale) : min),
+          Infinity
+        );
+      const shared = createSharedLightmapCharts(
+        charts.charts,
+        density * (Number.isFinite(minScale) ? minScale : 1),
+        padding,
+        geometry.getTotalVertices(),
+        referenceScale
+      );
+      meshIndices.forEach((meshIndex, index) => {
+        meshCharts[meshIndex] = {
+          charts: createInstanceCharts(shared, scales[index]),
+          unwrap: charts.unwrap,
+          instances: { shared, scales: scales[index] },
+        };
+      });
+    }
+
+    return meshCharts;
+  }
+
+  private _createCharts(mesh: BABYLON.AbstractMesh): MeshCharts | null {
+    const worldPositions = getWorldPositions(mesh);
+    if (!worldPositions) {
+      return null;
+    }
+    const indices = mesh.getIndices();
+
+    if (this._options.uvGenerationMode === "reuseUV1") {
+      const uv1 = mesh.getVerticesData(BABYLON.VertexBuffer.UVKind);
+      const chart = uv1 ? createUV1Chart(uv1, worldPositions, indices) : null;
+      return chart ? { charts: [chart] } : null;
+    }
+
+    if (!(mesh instanceof BABYLON.Mesh)) {
+      console.warn(`Mesh ${mesh.name} cannot be unwrapped.`);
+      return null;
+    }
+
+    if (mesh.morphTargetManager) {
+      console.warn(
+        `Mesh ${mesh.name} has morph targets, which are not supported by the unwrapper.`
+      );
+      return null;
+    }
+
+    const unwrap = unwrapLightmapCharts(
+      worldPositions,
+      indices,
+      this._options.unwrapOptions
+    );
+    applyVertexRemap(mesh, unwrap.vertexRemap, unwrap.indices);
+
+    return {
+      charts: unwrap.charts,
+      unwrap: { vertexRemap: unwrap.vertexRemap, indices: unwrap.indices },
+    };
+  }
+
+  private _resolveLightShape(
+    light: BABYLON.ShadowLight,
+    shape: AreaLightShape | null
+  ): AreaLightShape | null {
+    if (light instanceof BABYLON.DirectionalLight) {
+      if (shape && shape.type !== "hemisphere") {
+        throw new Error(
+          `Light shape ${shape.type} is not supported for directional lights.`
+        );
+      }
+      return shape;
+    }
+
+    if (
+      light instanceof BABYLON.PointLight ||
+      light instanceof BABYLON.SpotLight
+    ) {
+      if (shape?.type === "hemisphere") {
+        throw new Error(
+          "Light shape hemisphere is only supported for directional lights."
+        );
+      }
+      return shape ?? { type: "sphere" };
+    }
+
+    throw new Error(
+      `Light type ${light.getClassName()} is not supported by the progressive shadow map.`
+    );
+  }
+
+  /**
+   * Interleaves the samples of all lights so that every light is spread
+   * evenly over the bake.
+   */
+  private _buildLightSchedule(): LightSample[] {
+    const schedule: LightSample[] = [];
+    const taken = this._lights.map(() => 0);
+    const total = this._lights.reduce((sum, light) => sum + light.samples, 0);
+
+    for (let i = 0; i < total; i++) {
+      let next = -1;
+      this._lights.forEach((bakeLight, lightIndex) => {
+        if (taken[lightIndex] >= bakeLight.samples) return;
+        if (
+          next === -1 ||
+          (taken[lightIndex] + 0.5) / bakeLight.samples <
+            (taken[next] + 0.5) / this._lights[next].samples
+        ) {
+          next = lightIndex;
+        }
+      });
+
+      schedule.push({
+        lightIndex: next,
+        sampleIndex: taken[next]++,
+        iteration: i,
+        bounce: 0,
+      });
+    }
+
+    return schedule;
+  }
+
+  private _buildOcclusionSchedule(): LightSample[] {
+    const samples = this._getOcclusionSampleCount();
+    return Array.from({ length: samples }, (_, sampleIndex) => ({
+      lightIndex: -1,
+      sampleIndex,
+      iteration: sampleIndex,
+      bounce: 0,
+    }));
+  }
+
+  private _buildBounceSchedule(bounce: number): LightSample[] {
+    const samples = this._getBounceSampleCount();
+    return Array.from({ length: samples }, (_, sampleIndex) => ({
+      lightIndex: -1,
+      sampleIndex,
+      iteration: sampleIndex,
+      bounce,
+    }));
+  }
+
+  private _getOcclusionSampleCount(): number {
+    return Math.max(
+      1,
+      this._occlusionSampler?.options.samples ?? this._options.blendWindow
+    );
+  }
+
+  private _getBounceSampleCount(): number {
+    return Math.max(
+      1,
+      this._options.irradiance.samples ?? this._options.blendWindow
+    );
+  }
+
+  private _getBounceCount(): number {
+    if (this._options.bakeMode !== "irradiance") {
+      return 0;
+    }
+    const { bounces } = {
+      ...DEFAULT_IRRADIANCE_OPTIONS,
+      ...this._options.irradiance,
+    };
+    return Math.max(0, Math.floor(bounces));
+  }
+
+  /**
+   * Direction of an ambient occlusion sample, uniformly distributed over the
+   * sphere. Every texel flips it into its own hemisphere.
+   */
+  private _getOcclusionDirection({
+    sampleIndex,
+    bounce,
+  }: LightSample): BABYLON.Vector3 {
+    const [u1, u2] = this._occlusionSequence!.sample(
+      sampleIndex,
+      bounce > 0 ? this._getBounceSampleCount() : this._getOcclusionSampleCount()
+    );
+    return sampleSphere(u1, u2, new BABYLON.Vector3());
+  }
+
+  private _applyLightSample({ lightIndex, sampleIndex }: LightSample): void {
+    this._lights.forEach((bakeLight, index) => {
+      if (index !== lightIndex) {
+        bakeLight.light.intensity = 0;
+        return;
+      }
+
+      bakeLight.light.intensity = bakeLight.originalIntensity;
+      this._jitterLight(bakeLight, sampleIndex);
+    });
+  }
+
+  /**
+   * Scale of a light sample's contribution: the light's weight, compensated
+   * for the light only being present in some of the iterations. The plugin
+   * applies it after the material's lighting, which clamps intensities
+   * above 1, rather than through the light's intensity.
+   */
+  private _getSampleScale(
+    { lightIndex }: LightSample,
+    lightIterations: number
+  ): number {
+    if (lightIndex === -1) {
+      return 1;
+    }
+
+    const bakeLight = this._lights[lightIndex];
+    const coverage = this._options.separateLightChannels
+      ? 1
+      : lightIterations / bakeLight.samples;
+    return bakeLight.weight * coverage;
+  }
+
+  private _getChannelWeights({
+    lightIndex,
+    sampleIndex,
+  }: LightSample): BABYLON.Vector4 | null {
+    if (!this._options.separateLightChannels) {
+      return null;
+    }
+
+    const weights = [0, 0, 0, 0];
+    weights[lightIndex] = this._getBlendWeight(sampleIndex);
+    return BABYLON.Vector4.FromArray(weights);
+  }
+
+  /**
+   * Weight of the sample with the given index when blending it into the
+   * samples accumulated before it.
+   */
+  private _getBlendWeight(sampleIndex: number): number {
+    if (sampleIndex === 0) {
+      return 1;
+    }
+    return this._options.blendMode === "mean"
+      ? 1 / (sampleIndex + 1)
+      : this._options.blendFactor;
+  }
+
+  private _jitterLight(bakeLight: BakeLight, iteration: number): void {
+    const [u1, u2] = bakeLight.sequence.sample(iteration, bakeLight.samples);
+    const sample = new BABYLON.Vector3();
+
+    switch (bakeLight.shape?.type) {
+      case undefined: {
+        // Sample directional lights within a cone around their direction
+        const axis = bakeLight.originalDirection.normalizeToNew();
+        const cosMaxAngle = Math.cos(Math.atan(this._options.jitterRadius));
+        bakeLight.light.direction = sampleCone(u1, u2, axis, cosMaxAngle, sample);
+        break;
+      }
+      case "sphere": {
+        const radius = bakeLight.shape.radius ?? bakeLight.light.radius;
+        sampleSphere(u1, u2, sample).scaleInPlace(radius);
+        bakeLight.light.position = bakeLight.originalPosition.add(sample);
+        break;
+      }
+      case "rectangle": {
+        const normal = bakeLight.originalDirection.normalizeToNew();
+        const { width, height } = bakeLight.shape;
+        sampleRectangle(u1, u2, width, height, normal, sample);
+        bakeLight.light.position = bakeLight.originalPosition.add(sample);
+        break;
+      }
+      case "hemisphere": {
+        const axis = bakeLight.originalDirection.negate().normalize();
+        sampleCosineHemisphere(u1, u2, axis, sample);
+        bakeLight.light.direction = sample.negateInPlace();
+        break;
+      }
+    }
+  }
+
+  private _captureOriginalLight(bakeLight: BakeLight): void {
+    bakeLight.originalDirection = bakeLight.light.direction.clone();
+    bakeLight.originalPosition = bakeLight.light.position.clone();
+    bakeLight.originalIntensity = bakeLight.light.intensity;
+  }
+
+  private _restoreOriginalLight(bakeLight: BakeLight): void {
+    bakeLight.light.direction = bakeLight.originalDirection.clone();
+    bakeLight.light.position = bakeLight.originalPosition.clone();
+    bakeLight.light.intensity = bakeLight.originalIntensity;
+  }
+}
@@ -0,0 +1,379 @@
+import * as BABYLON from "@babylonjs/core";
+import type { OcclusionSample } from "./ambientOcclusion";
+import {
+  hasLightmapScaleOffset,
+  LIGHTMAP_SCALE_OFFSET_KIND,
+} from "./lightmapInstances";
+import { getProgressiveShadowMapCode } from "./progressiveShadowMapShaders";
+import type { ShadowTransmissionMap } from "./shadowTransmission";
+import { getUVKind } from "./uvUtils";
+
+declare module "@babylonjs/core" {
+  interface Material {
+    progressiveShadowMapPlugin?: ProgressiveShadowMapMaterialPlugin;
+  }
+}
+
+export class ProgressiveShadowMapMaterialPlugin extends BABYLON.MaterialPluginBase {
+  private _enabled: boolean = true;
+  private _previousShadowMap?: BABYLON.BaseTexture;
+  private _isFirstIteration: boolean = true;
+  private _blendFactor: number;
+  private _uvChannel: number;
+  private _lightChannels: boolean;
+  private _channelWeights: BABYLON.Vector4 = new BABYLON.Vector4(1, 1, 1, 1);
+  private _sampleScale: number = 1;
+  private _ambientOcclusion: boolean;
+  private _bentNormals: boolean;
+  private _occlusionSample: OcclusionSample | null = null;
+  private _bounce: boolean = false;
+  private _directShadowMap?: BABYLON.BaseTexture;
+  private _shadowTransmission: ShadowTransmissionMap | null = null;
+
+  get enabled(): boolean {
+    return this._enabled;
+  }
+
+  set enabled(value: boolean) {
+    if (this._enabled !== value) {
+      this._enabled = value;
+      this._enable(value);
+    }
+  }
+
+  get isFirstIteration(): boolean {
+    return this._isFirstIteration;
+  }
+
+  set isFirstIteration(value: boolean) {
+    if (this._isFirstIteration !== value) {
+      this._isFirstIteration = value;
+    }
+
+    this.markAllDefinesAsDirty();
+  }
+
+  get blendFactor(): number {
+    return this._blendFactor;
+  }
+
+  set blendFactor(value: number) {
+    this._blendFactor = value;
+  }
+
+  get uvChannel(): number {
+    return this._uvChannel;
+  }
+
+  /**
+   * Whether each light is accumulated into its own RGBA channel instead of
+   * the lit color being accumulated into RGB.
+   */
+  get lightChannels(): boolean {
+    return this._lightChannels;
+  }
+
+  /** Blend weight of the current sample for each channel in light channel mode. */
+  get channelWeights(): BABYLON.Vector4 {
+    return this._channelWeights;
+  }
+
+  set channelWeights(value: BABYLON.Vector4) {
+    this._channelWeights.copyFrom(value);
+  }
+
+  /**
+   * Scale of the current light sample, applied to the lit color before it is
+   * blended so that it isn't clamped by the material or a byte shadow map.
+   */
+  get sampleScale(): number {
+    return this._sampleScale;
+  }
+
+  set sampleScale(value: number) {
+    this._sampleScale = value;
+  }
+
+  /**
+   * Whether the plugin accumulates the ambient occlusion of
+   * `occlusionSample` instead of the material's lit color.
+   */
+  get ambientOcclusion(): boolean {
+    return this._ambientOcclusion;
+  }
+
+  get bentNormals(): boolean {
+    return this._bentNormals;
+  }
+
+  /** Direction tested in ambient occlusion mode, see `AmbientOcclusionSampler`. */
+  get occlusionSample(): OcclusionSample | null {
+    return this._occlusionSample;
+  }
+
+  set occlusionSample(value: OcclusionSample | null) {
+    this._occlusionSample = value;
+  }
+
+  /**
+   * Whether the plugin accumulates the direct lighting of
+   * `setDirectShadowMap` plus the light bounced off the surfaces of
+   * `occlusionSample`, instead of the material's lit color.
+   */
+  get bounce(): boolean {
+    return this._bounce;
+  }
+
+  set bounce(value: boolean) {
+    if (this._bounce !== value) {
+      this._bounce = value;
+      this.markAllDefinesAsDirty();
+    }
+  }
+
+  /**
+   * Colored shadows of the transparent casters the lit color is filtered
+   * with, outside ambient occlusion and bounces.
+   */
+  get shadowTransmission(): ShadowTransmissionMap | null {
+    return this._shadowTransmission;
+  }
+
+  set shadowTransmission(value: ShadowTransmissionMap | null) {
+    if (!this._shadowTransmission !== !value) {
+      this.markAllDefinesAsDirty();
+    }
+    this._shadowTransmission = value;
+  }
+
+  constructor(
+    material: BABYLON.Material,
+    {
+      name = "progressive-shadow-map-plugin",
+      priority = 200,
+      defines = {
+        FIRST_ITERATION: true,
+        LIGHT_CHANNELS: false,
+        AMBIENT_OCCLUSION: false,
+        BENT_NORMALS: false,
+        IRRADIANCE_BOUNCE: false,
+        LIGHTMAP_SCALE_OFFSET: false,
+        SHADOW_TRANSMISSION: false,
+      },
+      addToPluginList = true,
+      enable = true,
+      resolveIncludes = true,
+      blendFactor = 0.1,
+      uvChannel = 2,
+      lightChannels = false,
+      ambientOcclusion = false,
+      bentNormals = false,
+    } = {}
+  ) {
+    super(
+      material,
+      name,
+      priority,
+      defines,
+      addToPluginList,
+      enable,
+      resolveIncludes
+    );
+    this._blendFactor = blendFactor;
+    this._uvChannel = uvChannel;
+    this._lightChannels = lightChannels;
+    this._ambientOcclusion = ambientOcclusion;
+    this._bentNormals = bentNormals;
+    this._enable(true);
+    // Also reached for the plugins `Material.clone` recreates from `serialize`
+    material.progressiveShadowMapPlugin = this;
+  }
+
+  getClassName() {
+    return "ProgressiveShadowMapMaterialPlugin";
+  }
+
+  serialize(): any {
+    const serializationObject = super.serialize();
+    serializationObject.enabled = this._enabled;
+    serializationObject.blendFactor = this._blendFactor;
+    serializationObject.uvChannel = this._uvChannel;
+    serializationObject.lightChannels = this._lightChannels;
+    serializationObject.ambientOcclusion = this._ambientOcclusion;
+    serializationObject.bentNormals = this._bentNormals;
+    return serializationObject;
+  }
+
+  parse(source: any, scene: BABYLON.Scene, rootUrl: string): void {
+    super.parse(source, scene, rootUrl);
+    this._blendFactor = source.blendFactor ?? this._blendFactor;
+    this._uvChannel = source.uvChannel ?? this._uvChannel;
+    this._lightChannels = source.lightChannels ?? this._lightChannels;
+    this._ambientOcclusion = source.ambientOcclusion ?? this._ambientOcclusion;
+    this._bentNormals = source.bentNormals ?? this._bentNormals;
+    this.enabled = source.enabled ?? this._enabled;
+    this.markAllDefinesAsDirty();
+  }
+
+  isCompatible(shaderLanguage: BABYLON.ShaderLanguage) {
+    return (
+      shaderLanguage === BABYLON.ShaderLanguage.GLSL ||
+      shaderLanguage === BABYLON.ShaderLanguage.WGSL
+    );
+  }
+
+  getAttributes(
+    attributes: string[],
+    _scene: BABYLON.Scene,
+    mesh: BABYLON.AbstractMesh
+  ) {
+    attributes.push(getUVKind(this._uvChannel));
+    if (hasLightmapScaleOffset(mesh)) {
+      attributes.push(LIGHTMAP_SCALE_OFFSET_KIND);
+    }
+  }
+
+  getSamplers(samplers: string[]) {
+    samplers.push(
+      "previousShadowMap",
+      "occlusionFrontDepth",
+      "occlusionBackDepth",
+      "directShadowMap",
+      "shadowTransmissionMap"
+    );
+  }
+
+  // WGSL declares the uniform buffer members, read from `uniforms`
+  getUniforms(shaderLanguage?: BABYLON.ShaderLanguage) {
+    const ubo = [
+      { name: "shadowMapBlendFactor", size: 1, type: "float" },
+      { name: "shadowMapChannelWeights", size: 4, type: "vec4" },
+      { name: "shadowMapSampleScale", size: 1, type: "float" },
+      { name: "occlusionFrontMatrix", size: 16, type: "mat4" },
+      { name: "occlusionBackMatrix", size: 16, type: "mat4" },
+      { name: "occlusionDirection", size: 3, type: "vec3" },
+      { name: "occlusionCenter", size: 3, type: "vec3" },
+      { name: "occlusionParams", size: 3, type: "vec3" },
+      { name: "shadowTransmissionMatrix", size: 16, type: "mat4" },
+      { name: "shadowTransmissionBias", size: 1, type: "float" },
+    ];
+    if (shaderLanguage === BABYLON.ShaderLanguage.WGSL) {
+      return { ubo };
+    }
+
+    return {
+      ubo,
+      fragment: `
+        uniform float shadowMapBlendFactor;
+        uniform vec4 shadowMapChannelWeights;
+        uniform float shadowMapSampleScale;
+        uniform mat4 occlusionFrontMatrix;
+        uniform mat4 occlusionBackMatrix;
+        uniform vec3 occlusionDirection;
+        uniform vec3 occlusionCenter;
+        uniform vec3 occlusionParams;
+        uniform mat4 shadowTransmissionMatrix;
+        uniform float shadowTransmissionBias;
+      `,
+    };
+  }
+
+  prepareDefines(
+    defines: any,
+    _scene: BABYLON.Scene,
+    mesh: BABYLON.AbstractMesh
+  ) {
+    defines.FIRST_ITERATION = this._isFirstIteration;
+    defines.LIGHT_CHANNELS = this._lightChannels;
+    defines.AMBIENT_OCCLUSION = this._ambientOcclusion;
+    defines.BENT_NORMALS = this._ambientOcclusion && this._bentNormals;
+    defines.IRRADIANCE_BOUNCE = this._bounce;
+    defines.LIGHTMAP_SCALE_OFFSET = hasLightmapScaleOffset(mesh);
+    defines.SHADOW_TRANSMISSION = this._usesShadowTransmission();
+  }
+
+  getCustomCode(shaderType: string, shaderLanguage: BABYLON.ShaderLanguage) {
+    return getProgressiveShadowMapCode(
+      shaderType,
+      shaderLanguage,
+      this._uvChannel,
+      this._getAlbedoExpression()
+    );
+  }
+
+  setPreviousShadowMap(texture: BABYLON.BaseTexture) {
+    this._previousShadowMap = texture;
+  }
+
+  /** Direct lighting the bounced light is added to, see `bounce`. */
+  setDirectShadowMap(texture: BABYLON.BaseTexture) {
+    this._directShadowMap = texture;
+  }
+
+  bindForSubMesh(
+    uniformBuffer: BABYLON.UniformBuffer,
+    _scene: BABYLON.Scene,
+    _engine: BABYLON.AbstractEngine,
+    _subMesh: BABYLON.SubMesh
+  ): void {
+    uniformBuffer.updateFloat("shadowMapBlendFactor", this._blendFactor);
+    uniformBuffer.updateVector4(
+      "shadowMapChannelWeights",
+      this._channelWeights
+    );
+    uniformBuffer.updateFloat("shadowMapSampleScale", this._sampleScale);
+
+    if (this._previousShadowMap) {
+      uniformBuffer.setTexture("previousShadowMap", this._previousShadowMap);
+    }
+
+    const sample = this._occlusionSample;
+    if ((this._ambientOcclusion || this._bounce) && sample) {
+      uniformBuffer.updateMatrix("occlusionFrontMatrix", sample.frontMatrix);
+      uniformBuffer.updateMatrix("occlusionBackMatrix", sample.backMatrix);
+      uniformBuffer.updateVector3("occlusionDirection", sample.direction);
+      uniformBuffer.updateVector3("occlusionCenter", sample.center);
+      uniformBuffer.updateFloat3(
+        "occlusionParams",
+        sample.extent,
+        sample.bias,
+        sample.radius
+      );
+      uniformBuffer.setTexture("occlusionFrontDepth", sample.front);
+      uniformBuffer.setTexture("occlusionBackDepth", sample.back);
+    }
+
+    if (this._bounce && this._directShadowMap) {
+      uniformBuffer.setTexture("directShadowMap", this._directShadowMap);
+    }
+
+    const transmission = this._shadowTransmission;
+    if (this._usesShadowTransmission() && transmission?.texture) {
+      uniformBuffer.updateMatrix(
+        "shadowTransmissionMatrix",
+        transmission.matrix
+      );
+      uniformBuffer.updateFloat("shadowTransmissionBias", transmission.bias);
+      uniformBuffer.setTexture("shadowTransmissionMap", transmission.texture);
+    }
+  }
+
+  // Ambient occlusion and bounces don't accumulate the lit color
+  private _usesShadowTransmission(): boolean {
+    return (
+      !!this._shadowTransmission && !this._ambientOcclusion && !this._bounce
+    );
+  }
+
+  // Diffuse albedo of the material, in scope at the end of its fragment shader
+  private _getAlbedoExpression(): string {
+    return this._material instanceof BABYLON.PBRBaseMaterial
+      ? "surfaceAlbedo"
+      : "baseColor.rgb * diffuseColor";
+  }
+}
+
+BABYLON.RegisterClass(
+  "BABYLON.ProgressiveShadowMapMaterialPlugin",
+  ProgressiveShadowMapMaterialPlugin
+);
@@ -0,0 +1,381 @@
+import * as BABYLON from "@babylonjs/core";
+import {
+  ATLAS_UV_DECLARATION,
+  ATLAS_UV_DECLARATION_WGSL,
+} from "./lightmapInstances";
+import { getUVKind } from "./uvUtils";
+
+/**
+ * Code `ProgressiveShadowMapMaterialPlugin` injects into the shaders of a
+ * material, in the material's shader language. The vertex shader renders the
+ * mesh in the UV space of `uvChannel`, and the fragment shader blends the lit
+ * color, filtered by the colored shadows of `ShadowTransmissionMap`, the
+ * ambient occlusion or the bounced light into the previous shadow map.
+ * `albedo` is the diffuse albedo of the material at the end of its
+ * fragment shader.
+ */
+export function getProgressiveShadowMapCode(
+  shaderType: string,
+  shaderLanguage: BABYLON.ShaderLanguage,
+  uvChannel: number,
+  albedo: string
+): Record<string, string> {
+  const customCode = {
+    CUSTOM_VERTEX_DEFINITIONS: "",
+    CUSTOM_VERTEX_MAIN_END: "",
+    CUSTOM_FRAGMENT_DEFINITIONS: "",
+    CUSTOM_FRAGMENT_MAIN_END: "",
+  };
+  const wgsl = shaderLanguage === BABYLON.ShaderLanguage.WGSL;
+
+  if (shaderType === "vertex") {
+    const [definitions, mainEnd] = wgsl
+      ? getWGSLVertexCode(uvChannel)
+      : getGLSLVertexCode(uvChannel);
+    customCode["CUSTOM_VERTEX_DEFINITIONS"] = definitions;
+    customCode["CUSTOM_VERTEX_MAIN_END"] = mainEnd;
+  } else if (shaderType === "fragment") {
+    const [definitions, mainEnd] = wgsl
+      ? getWGSLFragmentCode(albedo)
+      : getGLSLFragmentCode(albedo);
+    customCode["CUSTOM_FRAGMENT_DEFINITIONS"] = definitions;
+    customCode["CUSTOM_FRAGMENT_MAIN_END"] = mainEnd;
+  }
+
+  return customCode;
+}
+
+function getGLSLVertexCode(uvChannel: number): [string, string] {
+  const uvAttribute = getUVKind(uvChannel);
+  return [
+    `
+      precision highp float;
+      attribute vec2 ${uvAttribute};
+      varying vec2 vShadowMapUV;
+      #if defined(AMBIENT_OCCLUSION) || defined(IRRADIANCE_BOUNCE)
+        varying vec3 vOcclusionPosition;
+        varying vec3 vOcclusionNormal;
+      #endif
+      #ifdef SHADOW_TRANSMISSION
+        varying vec3 vTransmissionPosition;
+      #endif
+      ${ATLAS_UV_DECLARATION}
+    `,
+    `
+      vShadowMapUV = toAtlasUV(${uvAttribute});
+      #if defined(AMBIENT_OCCLUSION) || defined(IRRADIANCE_BOUNCE)
+        vOcclusionPosition = worldPos.xyz;
+        #ifdef NORMAL
+          vOcclusionNormal = mat3(finalWorld) * normalUpdated;
+        #else
+          vOcclusionNormal = vec3(0.0, 1.0, 0.0);
+        #endif
+      #endif
+      #ifdef SHADOW_TRANSMISSION
+        vTransmissionPosition = worldPos.xyz;
+      #endif
+      vec2 uvTransformed = (vShadowMapUV - 0.5) * 2.0;
+      gl_Position = vec4(uvTransformed.x, uvTransformed.y, 0.0, 1.0);
+    `,
+  ];
+}
+
+function getGLSLFragmentCode(albedo: string): [string, string] {
+  return [
+    `
+      #ifndef FIRST_ITERATION
+        uniform sampler2D previousShadowMap;
+        varying vec2 vShadowMapUV;
+      #endif
+      #if defined(AMBIENT_OCCLUSION) || defined(IRRADIANCE_BOUNCE)
+        uniform sampler2D occlusionFrontDepth;
+        uniform sampler2D occlusionBackDepth;
+        varying vec3 vOcclusionPosition;
+        varying vec3 vOcclusionNormal;
+      #endif
+      #ifdef IRRADIANCE_BOUNCE
+        uniform sampler2D directShadowMap;
+        #ifdef FIRST_ITERATION
+          varying vec2 vShadowMapUV;
+        #endif
+
+        // Light reflected towards the receiver by the first surface a ray
+        // meets, read from the map rendered from behind the receiver
+        vec3 bounceRadiance(sampler2D radianceMap, mat4 viewProjection, vec3 position, vec3 toEye) {
+          vec4 clip = viewProjection * vec4(position, 1.0);
+          vec2 radianceUV = clip.xy / clip.w * 0.5 + 0.5;
+          vec3 eye = occlusionCenter + toEye * occlusionParams.x;
+          float receiverDistance = dot(position - eye, -toEye);
+          vec4 hit = texture2D(radianceMap, radianceUV);
+          // Surfaces behind the receiver hide the ones in front of it
+          return hit.a > receiverDistance + occlusionParams.y ? hit.rgb : vec3(0.0);
+        }
+      #endif
+      #ifdef AMBIENT_OCCLUSION
+        // 1 when the direction is not blocked within the occlusion radius
+        float occlusionVisibility(sampler2D depthMap, mat4 viewProjection, vec3 position, vec3 toEye) {
+          vec4 clip = viewProjection * vec4(position, 1.0);
+          vec2 depthUV = clip.xy / clip.w * 0.5 + 0.5;
+          vec3 eye = occlusionCenter + toEye * occlusionParams.x;
+          float receiverDistance = dot(position - eye, -toEye);
+          float delta = receiverDistance - texture2D(depthMap, depthUV).a;
+          float radius = occlusionParams.z;
+          return delta > occlusionParams.y && (radius <= 0.0 || delta < radius) ? 0.0 : 1.0;
+        }
+      #endif
+      #ifdef SHADOW_TRANSMISSION
+        uniform sampler2D shadowTransmissionMap;
+        varying vec3 vTransmissionPosition;
+
+        // Color of the light through the transparent casters in front of the
+        // receiver, see \`ShadowTransmissionMap\`
+        vec3 shadowTransmission(vec3 position) {
+          vec4 clip = shadowTransmissionMatrix * vec4(position, 1.0);
+          vec3 mapPosition = clip.xyz / clip.w * 0.5 + 0.5;
+          if (any(lessThan(mapPosition.xy, vec2(0.0))) || any(greaterThan(mapPosition.xy, vec2(1.0)))) {
+            return vec3(1.0);
+          }
+          vec4 transmission = texture2D(shadowTransmissionMap, mapPosition.xy);
+          return mapPosition.z > transmission.a + shadowTransmissionBias ? transmission.rgb : vec3(1.0);
+        }
+      #endif
+    `,
+    `
+      #ifdef SHADOW_TRANSMISSION
+        gl_FragColor.rgb *= shadowTransmission(vTransmissionPosition);
+      #endif
+
+      #ifdef IRRADIANCE_BOUNCE
+        // Uniform directions in the texel's hemisphere, weighted by the
+        // cosine over their density
+        vec3 bounceNormal = normalize(vOcclusionNormal);
+        vec3 bouncePosition = vOcclusionPosition + bounceNormal * occlusionParams.y;
+        bool bounceFront = dot(bounceNormal, occlusionDirection) >= 0.0;
+        vec3 bounceRay = bounceFront ? occlusionDirection : -occlusionDirection;
+        vec3 bounceLight = bounceFront
+          ? bounceRadiance(occlusionBackDepth, occlusionBackMatrix, bouncePosition, -bounceRay)
+          : bounceRadiance(occlusionFrontDepth, occlusionFrontMatrix, bouncePosition, -bounceRay);
+        gl_FragColor = vec4(
+          texture2D(directShadowMap, vShadowMapUV).rgb +
+            ${albedo} * 2.0 * dot(bounceNormal, bounceRay) * bounceLight,
+          1.0
+        );
+      #endif
+
+      #ifdef AMBIENT_OCCLUSION
+        // Test the sampled direction, or its opposite, within the texel's
+        // hemisphere. The mean over uniform directions is the unoccluded
+        // fraction of the hemisphere.
+        vec3 occlusionNormal = normalize(vOcclusionNormal);
+        vec3 occlusionPosition = vOcclusionPosition + occlusionNormal * occlusionParams.y;
+        bool occlusionFront = dot(occlusionNormal, occlusionDirection) >= 0.0;
+        vec3 occlusionRay = occlusionFront ? occlusionDirection : -occlusionDirection;
+        float visibility = occlusionFront
+          ? occlusionVisibility(occlusionFrontDepth, occlusionFrontMatrix, occlusionPosition, occlusionRay)
+          : occlusionVisibility(occlusionBackDepth, occlusionBackMatrix, occlusionPosition, occlusionRay);
+
+        #ifdef BENT_NORMALS
+          gl_FragColor = vec4(visibility, 0.5 + 0.5 * visibility * occlusionRay);
+        #else
+          gl_FragColor = vec4(vec3(visibility), 1.0);
+        #endif
+        #ifndef FIRST_ITERATION
+          vec4 previousShadowColor = texture2D(previousShadowMap, vShadowMapUV);
+          gl_FragColor = mix(previousShadowColor, gl_FragColor, shadowMapBlendFactor);
+        #endif
+      #elif defined(LIGHT_CHANNELS)
+        float lightValue = dot(gl_FragColor.rgb, vec3(0.2126, 0.7152, 0.0722)) * shadowMapSampleScale;
+        #ifdef FIRST_ITERATION
+          gl_FragColor = vec4(lightValue) * shadowMapChannelWeights;
+        #else
+          vec4 previousShadowColor = texture2D(previousShadowMap, vShadowMapUV);
+          gl_FragColor = mix(previousShadowColor, vec4(lightValue), shadowMapChannelWeights);
+        #endif
+      #else
+        // Scaled after the material's lighting, which clamps the lit color
+        gl_FragColor.rgb *= shadowMapSampleScale;
+        #ifndef FIRST_ITERATION
+          vec4 previousShadowColor = texture2D(previousShadowMap, vShadowMapUV);
+          gl_FragColor.rgb = mix(previousShadowColor.rgb, gl_FragColor.rgb, shadowMapBlendFactor);
+        #endif
+      #endif
+    `,
+  ];
+}
+
+// The material declares the UV attribute itself when it uses the channel,
+// and WGSL attributes can't be declared twice
+function getWGSLVertexCode(uvChannel: number): [string, string] {
+  const uvAttribute = getUVKind(uvChannel);
+  return [
+    `
+      #ifndef UV${uvChannel}
+        attribute ${uvAttribute}: vec2f;
+      #endif
+      varying vShadowMapUV: vec2f;
+      #if defined(AMBIENT_OCCLUSION) || defined(IRRADIANCE_BOUNCE)
+        varying vOcclusionPosition: vec3f;
+        varying vOcclusionNormal: vec3f;
+      #endif
+      #ifdef SHADOW_TRANSMISSION
+        varying vTransmissionPosition: vec3f;
+      #endif
+      ${ATLAS_UV_DECLARATION_WGSL}
+    `,
+    `
+      vertexOutputs.vShadowMapUV = toAtlasUV(vertexInputs.${uvAttribute});
+      #if defined(AMBIENT_OCCLUSION) || defined(IRRADIANCE_BOUNCE)
+        vertexOutputs.vOcclusionPosition = worldPos.xyz;
+        #ifdef NORMAL
+          vertexOutputs.vOcclusionNormal = mat3x3f(finalWorld[0].xyz, finalWorld[1].xyz, finalWorld[2].xyz) * normalUpdated;
+        #else
+          vertexOutputs.vOcclusionNormal = vec3f(0.0, 1.0, 0.0);
+        #endif
+      #endif
+      #ifdef SHADOW_TRANSMISSION
+        vertexOutputs.vTransmissionPosition = worldPos.xyz;
+      #endif
+      let uvTransformed = (vertexOutputs.vShadowMapUV - 0.5) * 2.0;
+      vertexOutputs.position = vec4f(uvTransformed.x, uvTransformed.y, 0.0, 1.0);
+    `,
+  ];
+}
+
+// WGSL has no ternary operator, and only samples textures with implicit
+// derivatives in uniform control flow, so both sides are sampled at level 0
+// and selected
+function getWGSLFragmentCode(albedo: string): [string, string] {
+  return [
+    `
+      #ifndef FIRST_ITERATION
+        var previousShadowMapSampler: sampler;
+        var previousShadowMap: texture_2d<f32>;
+        varying vShadowMapUV: vec2f;
+      #endif
+      #if defined(AMBIENT_OCCLUSION) || defined(IRRADIANCE_BOUNCE)
+        var occlusionFrontDepthSampler: sampler;
+        var occlusionFrontDepth: texture_2d<f32>;
+        var occlusionBackDepthSampler: sampler;
+        var occlusionBackDepth: texture_2d<f32>;
+        varying vOcclusionPosition: vec3f;
+        varying vOcclusionNormal: vec3f;
+      #endif
+      #ifdef IRRADIANCE_BOUNCE
+        var directShadowMapSampler: sampler;
+        var directShadowMap: texture_2d<f32>;
+        #ifdef FIRST_ITERATION
+          varying vShadowMapUV: vec2f;
+        #endif
+
+        // Light reflected towards the receiver by the first surface a ray
+        // meets, read from the map rendered from behind the receiver
+        fn bounceRadiance(radianceMap: texture_2d<f32>, radianceSampler: sampler, viewProjection: mat4x4f, position: vec3f, toEye: vec3f) -> vec3f {
+          let clip = viewProjection * vec4f(position, 1.0);
+          let radianceUV = clip.xy / clip.w * 0.5 + 0.5;
+          let eye = uniforms.occlusionCenter + toEye * uniforms.occlusionParams.x;
+          let receiverDistance = dot(position - eye, -toEye);
+          let hit = textureSampleLevel(radianceMap, radianceSampler, radianceUV, 0.0);
+          // Surfaces behind the receiver hide the ones in front of it
+          return select(vec3f(0.0), hit.rgb, hit.a > receiverDistance + uniforms.occlusionParams.y);
+        }
+      #endif
+      #ifdef AMBIENT_OCCLUSION
+        // 1 when the direction is not blocked within the occlusion radius
+        fn occlusionVisibility(depthMap: texture_2d<f32>, depthSampler: sampler, viewProjection: mat4x4f, position: vec3f, toEye: vec3f) -> f32 {
+          let clip = viewProjection * vec4f(position, 1.0);
+          let depthUV = clip.xy / clip.w * 0.5 + 0.5;
+          let eye = uniforms.occlusionCenter + toEye * uniforms.occlusionParams.x;
+          let receiverDistance = dot(position - eye, -toEye);
+          let delta = receiverDistance - textureSampleLevel(depthMap, depthSampler, depthUV, 0.0).a;
+          let radius = uniforms.occlusionParams.z;
+          return select(1.0, 0.0, delta > uniforms.occlusionParams.y && (radius <= 0.0 || delta < radius));
+        }
+      #endif
+      #ifdef SHADOW_TRANSMISSION
+        var shadowTransmissionMapSampler: sampler;
+        var shadowTransmissionMap: texture_2d<f32>;
+        varying vTransmissionPosition: vec3f;
+
+        // Color of the light through the transparent casters in front of the
+        // receiver, see \`ShadowTransmissionMap\`
+        fn shadowTransmission(position: vec3f) -> vec3f {
+          let clip = uniforms.shadowTransmissionMatrix * vec4f(position, 1.0);
+          let mapPosition = clip.xyz / clip.w * 0.5 + 0.5;
+          let transmission = textureSampleLevel(shadowTransmissionMap, shadowTransmissionMapSampler, mapPosition.xy, 0.0);
+          let inside = all(mapPosition.xy >= vec2f(0.0)) && all(mapPosition.xy <= vec2f(1.0));
+          return select(vec3f(1.0), transmission.rgb, inside && mapPosition.z > transmission.a + uniforms.shadowTransmissionBias);
+        }
+      #endif
+    `,
+    `
+      #ifdef SHADOW_TRANSMISSION
+        fragmentOutputs.color = vec4f(
+          fragmentOutputs.color.rgb * shadowTransmission(fragmentInputs.vTransmissionPosition),
+          fragmentOutputs.color.a
+        );
+      #endif
+
+      #ifdef IRRADIANCE_BOUNCE
+        // Uniform directions in the texel's hemisphere, weighted by the
+        // cosine over their density
+        let bounceNormal = normalize(fragmentInputs.vOcclusionNormal);
+        let bouncePosition = fragmentInputs.vOcclusionPosition + bounceNormal * uniforms.occlusionParams.y;
+        let bounceFront = dot(bounceNormal, uniforms.occlusionDirection) >= 0.0;
+        let bounceRay = select(-uniforms.occlusionDirection, uniforms.occlusionDirection, bounceFront);
+        let bounceLight = select(
+          bounceRadiance(occlusionFrontDepth, occlusionFrontDepthSampler, uniforms.occlusionFrontMatrix, bouncePosition, -bounceRay),
+          bounceRadiance(occlusionBackDepth, occlusionBackDepthSampler, uniforms.occlusionBackMatrix, bouncePosition, -bounceRay),
+          bounceFront
+        );
+        fragmentOutputs.color = vec4f(
+          textureSampleLevel(directShadowMap, directShadowMapSampler, fragmentInputs.vShadowMapUV, 0.0).rgb +
+            ${albedo} * 2.0 * dot(bounceNormal, bounceRay) * bounceLight,
+          1.0
+        );
+      #endif
+
+      #ifdef AMBIENT_OCCLUSION
+        // Test the sampled direction, or its opposite, within the texel's
+        // hemisphere. The mean over uniform directions is the unoccluded
+        // fraction of the hemisphere.
+        let occlusionNormal = normalize(fragmentInputs.vOcclusionNormal);
+        let occlusionPosition = fragmentInputs.vOcclusionPosition + occlusionNormal * uniforms.occlusionParams.y;
+        let occlusionFront = dot(occlusionNormal, uniforms.occlusionDirection) >= 0.0;
+        let occlusionRay = select(-uniforms.occlusionDirection, uniforms.occlusionDirection, occlusionFront);
+        let visibility = select(
+          occlusionVisibility(occlusionBackDepth, occlusionBackDepthSampler, uniforms.occlusionBackMatrix, occlusionPosition, occlusionRay),
+          occlusionVisibility(occlusionFrontDepth, occlusionFrontDepthSampler, uniforms.occlusionFrontMatrix, occlusionPosition, occlusionRay),
+          occlusionFront
+        );
+
+        #ifdef BENT_NORMALS
+          fragmentOutputs.color = vec4f(visibility, 0.5 + 0.5 * visibility * occlusionRay);
+        #else
+          fragmentOutputs.color = vec4f(vec3f(visibility), 1.0);
+        #endif
+        #ifndef FIRST_ITERATION
+          let previousShadowColor = textureSampleLevel(previousShadowMap, previousShadowMapSampler, fragmentInputs.vShadowMapUV, 0.0);
+          fragmentOutputs.color = mix(previousShadowColor, fragmentOutputs.color, uniforms.shadowMapBlendFactor);
+        #endif
+      #elif defined(LIGHT_CHANNELS)
+        let lightValue = dot(fragmentOutputs.color.rgb, vec3f(0.2126, 0.7152, 0.0722)) * uniforms.shadowMapSampleScale;
+        #ifdef FIRST_ITERATION
+          fragmentOutputs.color = vec4f(lightValue) * uniforms.shadowMapChannelWeights;
+        #else
+          let previousShadowColor = textureSampleLevel(previousShadowMap, previousShadowMapSampler, fragmentInputs.vShadowMapUV, 0.0);
+          fragmentOutputs.color = mix(previousShadowColor, vec4f(lightValue), uniforms.shadowMapChannelWeights);
+        #endif
+      #else
+        // Scaled after the material's lighting, which clamps the lit color
+        fragmentOutputs.color = vec4f(fragmentOutputs.color.rgb * uniforms.shadowMapSampleScale, fragmentOutputs.color.a);
+        #ifndef FIRST_ITERATION
+          let previousShadowColor = textureSampleLevel(previousShadowMap, previousShadowMapSampler, fragmentInputs.vShadowMapUV, 0.0);
+          fragmentOutputs.color = vec4f(
+            mix(previousShadowColor.rgb, fragmentOutputs.color.rgb, uniforms.shadowMapBlendFactor),
+            fragmentOutputs.color.a
+          );
+        #endif
+      #endif
+    `,
+  ];
+}
@@ -0,0 +1,181 @@
+import type { SampleSequence, SampleSequenceType } from "./types";
+
+/**
+ * Creates a deterministic 2D sample sequence. The same type, seed, index and
+ * count always produce the same sample, so bakes are reproducible.
+ */
+export function createSampleSequence(
+  type: SampleSequenceType,
+  seed: number = 0
+): SampleSequence {
+  switch (type) {
+    case "halton":
+      return new HaltonSequence(seed);
+    case "hammersley":
+      return new HammersleySequence(seed);
+    case "blueNoise":
+      return new BlueNoiseSequence(seed);
+    case "stratified":
+      return new StratifiedSequence(seed);
+  }
+}
+
+/**
+ * Small seeded PRNG (mulberry32) returning values in [0, 1).
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function radicalInverse(index: number, base: number): number {
+  let result = 0;
+  let fraction = 1 / base;
+  let i = index;
+  while (i > 0) {
+    result += (i % base) * fraction;
+    i = Math.floor(i / base);
+    fraction /= base;
+  }
+  return result;
+}
+
+function fract(value: number): number {
+  return value - Math.floor(value);
+}
+
+/**
+ * Halton sequence in bases 2 and 3, randomly rotated by the seed
+ * (Cranley-Patterson rotation).
+ */
+class HaltonSequence implements SampleSequence {
+  private _offset: [number, number];
+
+  constructor(seed: number) {
+    const random = createRandom(seed);
+    this._offset = seed === 0 ? [0, 0] : [random(), random()];
+  }
+
+  sample(index: number): [number, number] {
+    return [
+      fract(radicalInverse(index + 1, 2) + this._offset[0]),
+      fract(radicalInverse(index + 1, 3) + this._offset[1]),
+    ];
+  }
+}
+
+/**
+ * Hammersley point set, which needs the total sample count up front.
+ */
+class HammersleySequence implements SampleSequence {
+  private _offset: [number, number];
+
+  constructor(seed: number) {
+    const random = createRandom(seed);
+    this._offset = seed === 0 ? [0, 0] : [random(), random()];
+  }
+
+  sample(index: number, count: number): [number, number] {
+    return [
+      fract((index + 0.5) / count + this._offset[0]),
+      fract(radicalInverse(index, 2) + this._offset[1]),
+    ];
+  }
+}
+
+/**
+ * Blue noise point set generated with Mitchell's best candidate algorithm.
+ * Every new point is the candidate furthest from the previous ones, so any
+ * prefix of the set is well distributed too.
+ */
+class BlueNoiseSequence implements SampleSequence {
+  private _points: [number, number][] = [];
+  private _random: () => number;
+
+  constructor(seed: number) {
+    this._random = createRandom(seed);
+  }
+
+  sample(index: number): [number, number] {
+    while (this._points.length <= index) {
+      this._points.push(this._nextPoint());
+    }
+    return this._points[index];
+  }
+
+  private _nextPoint(): [number, number] {
+    const candidates = this._points.length + 1;
+    let best: [number, number] = [this._random(), this._random()];
+    let bestDistance = this._distanceToPoints(best);
+
+    for (let i = 1; i < candidates; i++) {
+      const candidate: [number, number] = [this._random(), this._random()];
+      const distance = this._distanceToPoints(candidate);
+      if (distance > bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+
+    return best;
+  }
+
+  // Toroidal distance, so that the set also tiles without clumping
+  private _distanceToPoints([x, y]: [number, number]): number {
+    let minDistance = Infinity;
+    for (const [px, py] of this._points) {
+      const dx = Math.min(Math.abs(x - px), 1 - Math.abs(x - px));
+      const dy = Math.min(Math.abs(y - py), 1 - Math.abs(y - py));
+      minDistance = Math.min(minDistance, dx * dx + dy * dy);
+    }
+    return minDistance;
+  }
+}
+
+/**
+ * Jittered grid of `ceil(sqrt(count))²` strata, visited in a seeded random
+ * order so that any prefix of the sequence still covers the whole square.
+ */
+class StratifiedSequence implements SampleSequence {
+  private _seed: number;
+  private _count: number = 0;
+  private _points: [number, number][] = [];
+
+  constructor(seed: number) {
+    this._seed = seed;
+  }
+
+  sample(index: number, count: number): [number, number] {
+    if (count !== this._count) {
+      this._count = count;
+      this._points = this._generate(count);
+    }
+    return this._points[index % this._points.length];
+  }
+
+  private _generate(count: number): [number, number][] {
+    const random = createRandom(this._seed);
+    const resolution = Math.max(1, Math.ceil(Math.sqrt(count)));
+    const points: [number, number][] = [];
+
+    for (let y = 0; y < resolution; y++) {
+      for (let x = 0; x < resolution; x++) {
+        points.push([(x + random()) / resolution, (y + random()) / resolution]);
+      }
+    }
+
+    // Fisher-Yates shuffle
+    for (let i = points.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [points[i], points[j]] = [points[j], points[i]];
+    }
+
+    return points;
+  }
+}
@@ -0,0 +1,156 @@
+import * as BABYLON from "@babylonjs/core";
+import type { LightmapPixels } from "./types";
+import { getUVKind } from "./uvUtils";
+
+/**
+ * Finds the lightmap seams of a mesh: edges shared in 3D by two triangles
+ * whose UVs differ. Every seam is returned as 8 floats, the UV segment on
+ * each side (`a0, a1, b0, b1`), ordered so that `a0` and `b0` lie on the same
+ * 3D position.
+ */
+export function findLightmapSeams(
+  mesh: BABYLON.AbstractMesh,
+  uvChannel: number
+): Float32Array {
+  const positions = mesh.getVerticesData(BABYLON.VertexBuffer.PositionKind);
+  const uvs = mesh.getVerticesData(getUVKind(uvChannel));
+  if (!positions || !uvs) {
+    return new Float32Array(0);
+  }
+
+  const vertexCount = positions.length / 3;
+  const indices =
+    mesh.getIndices() ?? Array.from({ length: vertexCount }, (_, i) => i);
+  const welded = weldPositions(positions);
+
+  // First triangle edge seen for every welded position pair
+  const edges = new Map<string, [number, number]>();
+  const seams: number[] = [];
+  const sameUV = (a: number, b: number) =>
+    uvs[a * 2] === uvs[b * 2] && uvs[a * 2 + 1] === uvs[b * 2 + 1];
+
+  for (let i = 0; i + 2 < indices.length; i += 3) {
+    for (let e = 0; e < 3; e++) {
+      let v0 = indices[i + e];
+      let v1 = indices[i + ((e + 1) % 3)];
+      if (welded[v0] === welded[v1]) continue;
+      if (welded[v0] > welded[v1]) {
+        [v0, v1] = [v1, v0];
+      }
+
+      const key = `${welded[v0]},${welded[v1]}`;
+      const other = edges.get(key);
+      if (!other) {
+        edges.set(key, [v0, v1]);
+        continue;
+      }
+
+      const [w0, w1] = other;
+      if (!sameUV(v0, w0) || !sameUV(v1, w1)) {
+        for (const vertex of [w0, w1, v0, v1]) {
+          seams.push(uvs[vertex * 2], uvs[vertex * 2 + 1]);
+        }
+      }
+    }
+  }
+
+  return new Float32Array(seams);
+}
+
+/**
+ * Maps the seams of lightmap UVs shared by instances, see
+ * `setLightmapScaleOffsets`, into the atlas rectangle of every instance.
+ */
+export function transformLightmapSeams(
+  seams: Float32Array,
+  scaleOffsets: Float32Array
+): Float32Array {
+  const instances = scaleOffsets.length / 4;
+  const result = new Float32Array(seams.length * instances);
+  for (let instance = 0; instance < instances; instance++) {
+    const [sx, sy, ox, oy] = scaleOffsets.subarray(
+      instance * 4,
+      instance * 4 + 4
+    );
+    const offset = instance * seams.length;
+    for (let i = 0; i + 1 < seams.length; i += 2) {
+      result[offset + i] = seams[i] * sx + ox;
+      result[offset + i + 1] = seams[i + 1] * sy + oy;
+    }
+  }
+  return result;
+}
+
+/**
+ * Averages the texels on both sides of every seam found by
+ * `findLightmapSeams`, in place, so that the shading matches across them.
+ * Texels are addressed like `readLightmapPixels` rows, with `v = 0` first.
+ */
+export function stitchLightmapSeams(
+  { width, height, data }: LightmapPixels,
+  seams: Float32Array,
+  iterations: number = 4
+): void {
+  const round = data instanceof Uint8Array;
+  const texelOffset = (u: number, v: number) => {
+    const x = Math.min(width - 1, Math.max(0, Math.floor(u * width)));
+    const y = Math.min(height - 1, Math.max(0, Math.floor(v * height)));
+    return (y * width + x) * 4;
+  };
+
+  // Neighbouring seams share texels, a few passes let them agree
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    for (let s = 0; s + 7 < seams.length; s += 8) {
+      const [au0, av0, au1, av1, bu0, bv0, bu1, bv1] = seams.subarray(
+        s,
+        s + 8
+      );
+      const length = Math.max(
+        Math.hypot((au1 - au0) * width, (av1 - av0) * height),
+        Math.hypot((bu1 - bu0) * width, (bv1 - bv0) * height)
+      );
+      // Two steps per texel, so that no texel along either side is skipped
+      const steps = Math.max(1, Math.ceil(length * 2));
+
+      for (let step = 0; step <= steps; step++) {
+        const t = step / steps;
+        const a = texelOffset(au0 + (au1 - au0) * t, av0 + (av1 - av0) * t);
+        const b = texelOffset(bu0 + (bu1 - bu0) * t, bv0 + (bv1 - bv0) * t);
+        if (a === b) continue;
+
+        for (let c = 0; c < 4; c++) {
+          const average = (data[a + c] + data[b + c]) / 2;
+          data[a + c] = data[b + c] = round ? Math.round(average) : average;
+        }
+      }
+    }
+  }
+}
+
+// Maps every vertex to the first vertex sharing its position
+function weldPositions(positions: BABYLON.FloatArray): Uint32Array {
+  const vertexCount = positions.length / 3;
+  const welded = new Uint32Array(vertexCount);
+
+  let extent = 0;
+  for (let i = 0; i < positions.length; i++) {
+    extent = Math.max(extent, Math.abs(positions[i]));
+  }
+  const epsilon = Math.max(extent * 1e-6, Number.MIN_VALUE);
+
+  const firstVertex = new Map<string, number>();
+  for (let i = 0; i < vertexCount; i++) {
+    const key = [0, 1, 2]
+      .map((c) => Math.round(positions[i * 3 + c] / epsilon))
+      .join(",");
+    const first = firstVertex.get(key);
+    if (first === undefined) {
+      firstVertex.set(key, i);
+      welded[i] = i;
+    } else {
+      welded[i] = first;
+    }
+  }
+
+  return welded;
+}
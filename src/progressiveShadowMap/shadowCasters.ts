@@ -0,0 +1,196 @@
+import * as BABYLON from "@babylonjs/core";
+import { getLightmapRenderingMesh } from "./lightmapInstances";
+import { getUVKind } from "./uvUtils";
+
+declare module "@babylonjs/core" {
+  interface Material {
+    /**
+     * Opts an alpha blended material in to casting colored shadows in bakes,
+     * see `ShadowTransmissionMap`. The shadow generators otherwise skip
+     * alpha blended casters, unless their `transparencyShadow` is set.
+     */
+    lightmapTransmission?: boolean;
+  }
+}
+
+/**
+ * Alpha test of a shadow caster: the texels of `texture` whose opacity is
+ * below `cutoff` cast no shadow.
+ */
+export interface CasterCutout {
+  texture: BABYLON.BaseTexture;
+  cutoff: number;
+  /** Whether the opacity is the luminance of the texture, not its alpha. */
+  opacityFromRGB: boolean;
+  /** Vertex buffer kind of the UVs the texture is sampled with. */
+  uvKind: string;
+}
+
+/**
+ * Alpha test of `material`, the material of `mesh` by default, when it
+ * renders `mesh` alpha tested. The opacity texture of standard and PBR
+ * materials holds the cutout when they have one, and the albedo otherwise.
+ * Multi-materials and meshes without the UVs of the texture have none.
+ */
+export function getCasterCutout(
+  mesh: BABYLON.AbstractMesh,
+  material: BABYLON.Material | null = getLightmapRenderingMesh(mesh).material
+): CasterCutout | null {
+  if (
+    !material ||
+    material instanceof BABYLON.MultiMaterial ||
+    !material.needAlphaTestingForMesh(mesh)
+  ) {
+    return null;
+  }
+
+  // PBR material classes expose these under different names
+  const [opacityTexture, cutoff] =
+    material instanceof BABYLON.StandardMaterial
+      ? [material.opacityTexture, material.alphaCutOff]
+      : material instanceof BABYLON.PBRBaseMaterial
+        ? [material._opacityTexture, material._alphaCutOff]
+        : [null, BABYLON.ShadowGenerator.DEFAULT_ALPHA_CUTOFF];
+  const texture = opacityTexture ?? material.getAlphaTestTexture();
+  const uvKind = texture ? getUVKind(texture.coordinatesIndex + 1) : null;
+  if (!texture || !uvKind || !mesh.isVerticesDataPresent(uvKind)) {
+    return null;
+  }
+
+  return {
+    texture,
+    cutoff,
+    opacityFromRGB: texture === opacityTexture && texture.getAlphaFromRGB,
+    uvKind,
+  };
+}
+
+/** GLSL applying a `CasterCutout` in the depth materials of the bake. */
+export interface CutoutShaderCode {
+  vertexDefinitions: string;
+  vertexMain: string;
+  fragmentDefinitions: string;
+  fragmentMain: string;
+}
+
+/**
+ * Code discarding the texels cut out by `cutout`, all empty without one. The
+ * vertex code needs `position`, and declares the UV attribute unless it is
+ * in `declaredAttributes`.
+ */
+export function getCutoutShaderCode(
+  cutout: CasterCutout | null,
+  declaredAttributes: string[] = []
+): CutoutShaderCode {
+  if (!cutout) {
+    return {
+      vertexDefinitions: "",
+      vertexMain: "",
+      fragmentDefinitions: "",
+      fragmentMain: "",
+    };
+  }
+
+  const { uvKind, opacityFromRGB } = cutout;
+  return {
+    vertexDefinitions: `
+      ${declaredAttributes.includes(uvKind) ? "" : `attribute vec2 ${uvKind};`}
+      uniform mat4 cutoutMatrix;
+      varying vec2 vCutoutUV;
+    `,
+    vertexMain: `
+      vCutoutUV = vec2(cutoutMatrix * vec4(${uvKind}, 1.0, 0.0));
+    `,
+    fragmentDefinitions: `
+      uniform sampler2D cutoutSampler;
+      uniform float cutoutThreshold;
+      varying vec2 vCutoutUV;
+    `,
+    fragmentMain: `
+      vec4 cutoutColor = texture2D(cutoutSampler, vCutoutUV);
+      float cutoutOpacity = ${
+        opacityFromRGB
+          ? "dot(cutoutColor.rgb, vec3(0.3, 0.59, 0.11))"
+          : "cutoutColor.a"
+      };
+      if (cutoutOpacity < cutoutThreshold) discard;
+    `,
+  };
+}
+
+/**
+ * Adds the attribute, uniforms and sampler of `getCutoutShaderCode` to the
+ * options of a shader material.
+ */
+export function addCutoutShaderOptions(
+  options: Partial<BABYLON.IShaderMaterialOptions>,
+  cutout: CasterCutout | null
+): void {
+  if (!cutout) {
+    return;
+  }
+
+  const attributes = (options.attributes ??= []);
+  if (!attributes.includes(cutout.uvKind)) {
+    attributes.push(cutout.uvKind);
+  }
+  (options.uniforms ??= []).push("cutoutMatrix", "cutoutThreshold");
+  (options.samplers ??= []).push("cutoutSampler");
+}
+
+/** Binds the cutout of a material created with `addCutoutShaderOptions`. */
+export function bindCasterCutout(
+  material: BABYLON.ShaderMaterial,
+  cutout: CasterCutout | null
+): void {
+  if (!cutout) {
+    return;
+  }
+
+  material.setTexture("cutoutSampler", cutout.texture);
+  material.setMatrix("cutoutMatrix", cutout.texture.getTextureMatrix());
+  material.setFloat("cutoutThreshold", cutout.cutoff);
+}
+
+/**
+ * Makes a shadow generator read the cutouts of `getCasterCutout`, which it
+ * otherwise reads from the albedo only, and with `skipTransmission` leaves
+ * the transparent casters opted in to `lightmapTransmission` out. Returns
+ * the function restoring the generator.
+ */
+export function prepareShadowGenerator(
+  generator: BABYLON.ShadowGenerator,
+  skipTransmission: boolean
+): () => void {
+  const { customAllowRendering, useOpacityTextureForTransparentShadow } =
+    generator;
+
+  // Called before the generator picks the texture of every sub-mesh
+  generator.customAllowRendering = (subMesh) => {
+    if (customAllowRendering && !customAllowRendering(subMesh)) {
+      return false;
+    }
+
+    const mesh = subMesh.getRenderingMesh();
+    const material = subMesh.getMaterial();
+    if (
+      skipTransmission &&
+      material?.lightmapTransmission &&
+      material.needAlphaBlendingForMesh(mesh)
+    ) {
+      return false;
+    }
+
+    const cutout = getCasterCutout(mesh, material);
+    generator.useOpacityTextureForTransparentShadow = cutout
+      ? cutout.texture === (material as BABYLON.StandardMaterial).opacityTexture
+      : useOpacityTextureForTransparentShadow;
+    return true;
+  };
+
+  return () => {
+    generator.customAllowRendering = customAllowRendering;
+    generator.useOpacityTextureForTransparentShadow =
+      useOpacityTextureForTransparentShadow;
+  };
+}
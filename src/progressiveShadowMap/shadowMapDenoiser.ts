@@ -0,0 +1,313 @@
+import * as BABYLON from "@babylonjs/core";
+import type { AtlasGuides } from "./atlasGuides";
+import { getEffectShaderLanguage } from "./textureUtils";
+import type { DenoiseOptions } from "./types";
+
+export const DEFAULT_DENOISE_OPTIONS: Required<DenoiseOptions> = {
+  sigma: 1.5,
+  radius: null,
+  edgeAware: true,
+  positionSigma: null,
+  normalPower: 16,
+  strength: 1,
+};
+
+// One direction of a separable Gaussian blur. Taps outside the texel's chart
+// rectangle, or outside the charts' triangles, are skipped.
+const BLUR_FRAGMENT_SHADER = `
+  precision highp float;
+  varying vec2 vUV;
+  uniform sampler2D textureSampler;
+  uniform sampler2D unfilteredSampler;
+  uniform sampler2D chartRects;
+  uniform sampler2D positions;
+  uniform sampler2D normals;
+  uniform vec2 direction;
+  uniform float sigma;
+  uniform float positionSigma;
+  uniform float normalPower;
+  uniform float strength;
+
+  void main() {
+    vec4 center = texture2D(textureSampler, vUV);
+    vec4 rect = texture2D(chartRects, vUV);
+    vec4 centerPosition = texture2D(positions, vUV);
+    if (rect.z <= rect.x || centerPosition.w == 0.0) {
+      gl_FragColor = center;
+      return;
+    }
+    vec3 centerNormal = texture2D(normals, vUV).xyz;
+
+    vec4 sum = center;
+    float weightSum = 1.0;
+    for (int i = -RADIUS; i <= RADIUS; i++) {
+      if (i == 0) continue;
+
+      vec2 uv = vUV + direction * float(i);
+      if (any(lessThan(uv, rect.xy)) || any(greaterThan(uv, rect.zw))) continue;
+
+      vec4 samplePosition = texture2D(positions, uv);
+      if (samplePosition.w == 0.0) continue;
+
+      float weight = exp(-float(i * i) / (2.0 * sigma * sigma));
+      #ifdef EDGE_AWARE
+        vec3 offset = samplePosition.xyz - centerPosition.xyz;
+        weight *= exp(-dot(offset, offset) / (2.0 * positionSigma * positionSigma));
+        float cosine = max(dot(centerNormal, texture2D(normals, uv).xyz), 0.0);
+        weight *= pow(cosine, normalPower);
+      #endif
+
+      sum += texture2D(textureSampler, uv) * weight;
+      weightSum += weight;
+    }
+
+    gl_FragColor = mix(texture2D(unfilteredSampler, vUV), sum / weightSum, strength);
+  }
+`;
+
+const BLUR_FRAGMENT_SHADER_WGSL = `
+  varying vUV: vec2f;
+  var textureSamplerSampler: sampler;
+  var textureSampler: texture_2d<f32>;
+  var unfilteredSamplerSampler: sampler;
+  var unfilteredSampler: texture_2d<f32>;
+  var chartRectsSampler: sampler;
+  var chartRects: texture_2d<f32>;
+  var positionsSampler: sampler;
+  var positions: texture_2d<f32>;
+  var normalsSampler: sampler;
+  var normals: texture_2d<f32>;
+  uniform direction: vec2f;
+  uniform sigma: f32;
+  uniform positionSigma: f32;
+  uniform normalPower: f32;
+  uniform strength: f32;
+
+  @fragment
+  fn main(input: FragmentInputs) -> FragmentOutputs {
+    let center = textureSampleLevel(textureSampler, textureSamplerSampler, input.vUV, 0.0);
+    let rect = textureSampleLevel(chartRects, chartRectsSampler, input.vUV, 0.0);
+    let centerPosition = textureSampleLevel(positions, positionsSampler, input.vUV, 0.0);
+    if (rect.z <= rect.x || centerPosition.w == 0.0) {
+      fragmentOutputs.color = center;
+      return fragmentOutputs;
+    }
+    let centerNormal = textureSampleLevel(normals, normalsSampler, input.vUV, 0.0).xyz;
+
+    var sum = center;
+    var weightSum = 1.0;
+    for (var i = -RADIUS; i <= RADIUS; i++) {
+      if (i == 0) { continue; }
+
+      let uv = input.vUV + uniforms.direction * f32(i);
+      if (any(uv < rect.xy) || any(uv > rect.zw)) { continue; }
+
+      let samplePosition = textureSampleLevel(positions, positionsSampler, uv, 0.0);
+      if (samplePosition.w == 0.0) { continue; }
+
+      var weight = exp(-f32(i * i) / (2.0 * uniforms.sigma * uniforms.sigma));
+      #ifdef EDGE_AWARE
+        let offset = samplePosition.xyz - centerPosition.xyz;
+        weight *= exp(-dot(offset, offset) / (2.0 * uniforms.positionSigma * uniforms.positionSigma));
+        let cosine = max(dot(centerNormal, textureSampleLevel(normals, normalsSampler, uv, 0.0).xyz), 0.0);
+        weight *= pow(cosine, uniforms.normalPower);
+      #endif
+
+      sum += textureSampleLevel(textureSampler, textureSamplerSampler, uv, 0.0) * weight;
+      weightSum += weight;
+    }
+
+    let unfiltered = textureSampleLevel(unfilteredSampler, unfilteredSamplerSampler, input.vUV, 0.0);
+    fragmentOutputs.color = mix(unfiltered, sum / weightSum, uniforms.strength);
+  }
+`;
+
+/** Fragment shader of the blur passes, in `shaderLanguage`. */
+export function getBlurFragmentShader(
+  shaderLanguage: BABYLON.ShaderLanguage
+): string {
+  return shaderLanguage === BABYLON.ShaderLanguage.WGSL
+    ? BLUR_FRAGMENT_SHADER_WGSL
+    : BLUR_FRAGMENT_SHADER;
+}
+
+/**
+ * Blurs shadow maps in atlas space. The atlas guides tell the filter which
+ * texels are covered and how they relate in world space.
+ */
+export class ShadowMapDenoiser {
+  private _scene: BABYLON.Scene;
+  private _resolution: number;
+  private _renderer: BABYLON.EffectRenderer;
+  private _blurPasses: Map<string, BABYLON.EffectWrapper> = new Map();
+  private _chartRectTexture: BABYLON.RawTexture;
+  private _chartRectData: Float32Array;
+  private _blurRTT: BABYLON.RenderTargetTexture | null = null;
+
+  constructor(scene: BABYLON.Scene, resolution: number) {
+    this._scene = scene;
+    this._resolution = resolution;
+    this._renderer = new BABYLON.EffectRenderer(scene.getEngine());
+
+    this._chartRectData = new Float32Array(resolution * resolution * 4);
+    this._chartRectTexture = BABYLON.RawTexture.CreateRGBATexture(
+      this._chartRectData,
+      resolution,
+      resolution,
+      scene,
+      false,
+      false,
+      BABYLON.Texture.NEAREST_SAMPLINGMODE,
+      BABYLON.Constants.TEXTURETYPE_FLOAT
+    );
+  }
+
+  /**
+   * Filters `source` into `target`.
+   * @param guides Guides rendered for the shadow map's atlas page.
+   * @param chartRects Atlas rectangle of every chart, as `x0, y0, x1, y1`
+   *   texel coordinates.
+   * @param texelsPerUnit Texel density of the atlas, used to scale
+   *   `positionSigma`.
+   */
+  public async denoise(
+    source: BABYLON.BaseTexture,
+    target: BABYLON.RenderTargetTexture,
+    guides: AtlasGuides,
+    chartRects: number[],
+    texelsPerUnit: number,
+    options: DenoiseOptions = {}
+  ): Promise<void> {
+    const { sigma, radius, edgeAware, positionSigma, normalPower, strength } =
+      { ...DEFAULT_DENOISE_OPTIONS, ...options };
+
+    this._updateChartRects(chartRects);
+
+    const blurRadius = Math.max(
+      1,
+      Math.round(radius ?? Math.ceil(2 * sigma))
+    );
+    const pass = this._getBlurPass(blurRadius, edgeAware);
+    await pass.effect.whenCompiledAsync();
+
+    const blurRTT = this._getBlurRTT(target);
+    const texelSize = 1 / this._resolution;
+    const passes: [BABYLON.BaseTexture, BABYLON.RenderTargetTexture][] = [
+      [source, blurRTT],
+      [blurRTT, target],
+    ];
+
+    for (const [input, output] of passes) {
+      const horizontal = output === blurRTT;
+      pass.onApplyObservable.addOnce(() => {
+        const effect = pass.effect;
+        effect.setTexture("textureSampler", input);
+        effect.setTexture("unfilteredSampler", source);
+        effect.setTexture("chartRects", this._chartRectTexture);
+        effect.setTexture("positions", guides.positions);
+        effect.setTexture("normals", guides.normals);
+        effect.setFloat2(
+          "direction",
+          horizontal ? texelSize : 0,
+          horizontal ? 0 : texelSize
+        );
+        effect.setFloat("sigma", sigma);
+        effect.setFloat(
+          "positionSigma",
+          positionSigma ?? 2 / Math.max(texelsPerUnit, Number.EPSILON)
+        );
+        effect.setFloat("normalPower", normalPower);
+        // The second pass blends the result with the unfiltered shadow map
+        effect.setFloat("strength", horizontal ? 1 : strength);
+      });
+      this._renderer.render(pass, output);
+    }
+  }
+
+  public dispose(): void {
+    this._blurPasses.forEach((pass) => pass.dispose());
+    this._blurPasses.clear();
+    this._renderer.dispose();
+    this._chartRectTexture.dispose();
+    this._blurRTT?.dispose();
+  }
+
+  private _updateChartRects(chartRects: number[]): void {
+    const data = this._chartRectData;
+    const resolution = this._resolution;
+    data.fill(0);
+
+    for (let i = 0; i < chartRects.length; i += 4) {
+      const [x0, y0, x1, y1] = chartRects.slice(i, i + 4);
+      for (let y = Math.max(0, y0); y < Math.min(resolution, y1); y++) {
+        for (let x = Math.max(0, x0); x < Math.min(resolution, x1); x++) {
+          const offset = (y * resolution + x) * 4;
+          data[offset] = x0 / resolution;
+          data[offset + 1] = y0 / resolution;
+          data[offset + 2] = x1 / resolution;
+          data[offset + 3] = y1 / resolution;
+        }
+      }
+    }
+
+    this._chartRectTexture.update(data);
+  }
+
+  private _getBlurPass(
+    radius: number,
+    edgeAware: boolean
+  ): BABYLON.EffectWrapper {
+    const defines = [`#define RADIUS ${radius}`];
+    if (edgeAware) {
+      defines.push("#define EDGE_AWARE");
+    }
+
+    const key = defines.join("\n");
+    let pass = this._blurPasses.get(key);
+    if (!pass) {
+      const engine = this._scene.getEngine();
+      const shaderLanguage = getEffectShaderLanguage(engine);
+      pass = new BABYLON.EffectWrapper({
+        engine,
+        name: "shadowMapBlur",
+        fragmentShader: getBlurFragmentShader(shaderLanguage),
+        shaderLanguage,
+        uniformNames: [
+          "direction",
+          "sigma",
+          "positionSigma",
+          "normalPower",
+          "strength",
+        ],
+        samplerNames: [
+          "textureSampler",
+          "unfilteredSampler",
+          "chartRects",
+          "positions",
+          "normals",
+        ],
+        defines: key,
+      });
+      this._blurPasses.set(key, pass);
+    }
+    return pass;
+  }
+
+  private _getBlurRTT(
+    target: BABYLON.RenderTargetTexture
+  ): BABYLON.RenderTargetTexture {
+    const type = target.getInternalTexture()?.type;
+    if (!this._blurRTT || this._blurRTT.getInternalTexture()?.type !== type) {
+      this._blurRTT?.dispose();
+      this._blurRTT = new BABYLON.RenderTargetTexture(
+        "shadowMapDenoiser_blur",
+        this._resolution,
+        this._scene,
+        false,
+        true,
+        type
+      );
+    }
+    return this._blurRTT;
+  }
+}
@@ -0,0 +1,244 @@
+import * as BABYLON from "@babylonjs/core";
+import { getEffectShaderLanguage, TextureCopier } from "./textureUtils";
+import type { LightmapPixels } from "./types";
+
+// Uncovered texels take the average of the nearest covered texels within
+// RADIUS texels
+const DILATE_FRAGMENT_SHADER = `
+  precision highp float;
+  varying vec2 vUV;
+  uniform sampler2D textureSampler;
+  uniform sampler2D coverage;
+  uniform vec2 texelSize;
+
+  void main() {
+    vec4 color = texture2D(textureSampler, vUV);
+    if (texture2D(coverage, vUV).a > 0.0) {
+      gl_FragColor = color;
+      return;
+    }
+
+    vec4 sum = vec4(0.0);
+    float count = 0.0;
+    float nearest = float(RADIUS) + 1.0;
+    for (int y = -RADIUS; y <= RADIUS; y++) {
+      for (int x = -RADIUS; x <= RADIUS; x++) {
+        vec2 offset = vec2(float(x), float(y));
+        vec2 uv = vUV + offset * texelSize;
+        if (any(lessThan(uv, vec2(0.0))) || any(greaterThan(uv, vec2(1.0)))) continue;
+        if (texture2D(coverage, uv).a == 0.0) continue;
+
+        float tapDistance = length(offset);
+        if (tapDistance < nearest) {
+          nearest = tapDistance;
+          sum = vec4(0.0);
+          count = 0.0;
+        }
+        if (tapDistance == nearest) {
+          sum += texture2D(textureSampler, uv);
+          count += 1.0;
+        }
+      }
+    }
+
+    gl_FragColor = count > 0.0 ? sum / count : color;
+  }
+`;
+
+const DILATE_FRAGMENT_SHADER_WGSL = `
+  varying vUV: vec2f;
+  var textureSamplerSampler: sampler;
+  var textureSampler: texture_2d<f32>;
+  var coverageSampler: sampler;
+  var coverage: texture_2d<f32>;
+  uniform texelSize: vec2f;
+
+  @fragment
+  fn main(input: FragmentInputs) -> FragmentOutputs {
+    let color = textureSampleLevel(textureSampler, textureSamplerSampler, input.vUV, 0.0);
+    if (textureSampleLevel(coverage, coverageSampler, input.vUV, 0.0).a > 0.0) {
+      fragmentOutputs.color = color;
+      return fragmentOutputs;
+    }
+
+    var sum = vec4f(0.0);
+    var count = 0.0;
+    var nearest = f32(RADIUS) + 1.0;
+    for (var y = -RADIUS; y <= RADIUS; y++) {
+      for (var x = -RADIUS; x <= RADIUS; x++) {
+        let offset = vec2f(f32(x), f32(y));
+        let uv = input.vUV + offset * uniforms.texelSize;
+        if (any(uv < vec2f(0.0)) || any(uv > vec2f(1.0))) { continue; }
+        if (textureSampleLevel(coverage, coverageSampler, uv, 0.0).a == 0.0) { continue; }
+
+        let tapDistance = length(offset);
+        if (tapDistance < nearest) {
+          nearest = tapDistance;
+          sum = vec4f(0.0);
+          count = 0.0;
+        }
+        if (tapDistance == nearest) {
+          sum += textureSampleLevel(textureSampler, textureSamplerSampler, uv, 0.0);
+          count += 1.0;
+        }
+      }
+    }
+
+    fragmentOutputs.color = select(color, sum / count, count > 0.0);
+  }
+`;
+
+/** Fragment shader of the dilate passes, in `shaderLanguage`. */
+export function getDilateFragmentShader(
+  shaderLanguage: BABYLON.ShaderLanguage
+): string {
+  return shaderLanguage === BABYLON.ShaderLanguage.WGSL
+    ? DILATE_FRAGMENT_SHADER_WGSL
+    : DILATE_FRAGMENT_SHADER;
+}
+
+/**
+ * Grows the charts of a shadow map into the surrounding empty texels, so that
+ * bilinear filtering and mipmaps don't pull the clear color into chart edges.
+ */
+export class ShadowMapDilator {
+  private _scene: BABYLON.Scene;
+  private _resolution: number;
+  private _renderer: BABYLON.EffectRenderer;
+  private _dilatePasses: Map<number, BABYLON.EffectWrapper> = new Map();
+  private _copier: TextureCopier;
+  private _scratchRTT: BABYLON.RenderTargetTexture | null = null;
+  private _pixelTexture: BABYLON.RawTexture | null = null;
+
+  constructor(scene: BABYLON.Scene, resolution: number) {
+    this._scene = scene;
+    this._resolution = resolution;
+    this._renderer = new BABYLON.EffectRenderer(scene.getEngine());
+    this._copier = new TextureCopier(scene.getEngine());
+  }
+
+  /**
+   * Dilates `source` into `target` by `pixels` texels. Texels are covered
+   * where the alpha of `coverage` is not 0, see `AtlasGuides`.
+   */
+  public async dilate(
+    source: BABYLON.BaseTexture,
+    target: BABYLON.RenderTargetTexture,
+    coverage: BABYLON.BaseTexture,
+    pixels: number
+  ): Promise<void> {
+    const pass = this._getDilatePass(Math.max(1, Math.round(pixels)));
+    await pass.effect.whenCompiledAsync();
+
+    // A texture can't be read while it is rendered to
+    const output = source === target ? this._getScratchRTT(target) : target;
+    pass.onApplyObservable.addOnce(() => {
+      pass.effect.setTexture("textureSampler", source);
+      pass.effect.setTexture("coverage", coverage);
+      pass.effect.setFloat2(
+        "texelSize",
+        1 / this._resolution,
+        1 / this._resolution
+      );
+    });
+    this._renderer.render(pass, output);
+
+    if (output !== target) {
+      await this._copy(output, target);
+    }
+  }
+
+  /**
+   * Uploads pixels read back with `readLightmapPixels` into `target`.
+   */
+  public async writePixels(
+    { width, height, data }: LightmapPixels,
+    target: BABYLON.RenderTargetTexture
+  ): Promise<void> {
+    const type =
+      data instanceof Float32Array
+        ? BABYLON.Constants.TEXTURETYPE_FLOAT
+        : BABYLON.Constants.TEXTURETYPE_UNSIGNED_BYTE;
+    const size = this._pixelTexture?.getSize();
+
+    if (
+      !this._pixelTexture ||
+      size?.width !== width ||
+      size?.height !== height ||
+      this._pixelTexture.textureType !== type
+    ) {
+      this._pixelTexture?.dispose();
+      this._pixelTexture = BABYLON.RawTexture.CreateRGBATexture(
+        data,
+        width,
+        height,
+        this._scene,
+        false,
+        false,
+        BABYLON.Texture.NEAREST_SAMPLINGMODE,
+        type
+      );
+    } else {
+      this._pixelTexture.update(data);
+    }
+
+    await this._copy(this._pixelTexture, target);
+  }
+
+  public dispose(): void {
+    this._dilatePasses.forEach((pass) => pass.dispose());
+    this._dilatePasses.clear();
+    this._copier.dispose();
+    this._renderer.dispose();
+    this._scratchRTT?.dispose();
+    this._pixelTexture?.dispose();
+  }
+
+  private async _copy(
+    source: BABYLON.BaseTexture,
+    target: BABYLON.RenderTargetTexture
+  ): Promise<void> {
+    await this._copier.whenReadyAsync();
+    this._copier.copy(source, target);
+  }
+
+  private _getDilatePass(radius: number): BABYLON.EffectWrapper {
+    let pass = this._dilatePasses.get(radius);
+    if (!pass) {
+      const engine = this._scene.getEngine();
+      const shaderLanguage = getEffectShaderLanguage(engine);
+      pass = new BABYLON.EffectWrapper({
+        engine,
+        name: "shadowMapDilate",
+        fragmentShader: getDilateFragmentShader(shaderLanguage),
+        shaderLanguage,
+        uniformNames: ["texelSize"],
+        samplerNames: ["textureSampler", "coverage"],
+        defines: `#define RADIUS ${radius}`,
+      });
+      this._dilatePasses.set(radius, pass);
+    }
+    return pass;
+  }
+
+  private _getScratchRTT(
+    target: BABYLON.RenderTargetTexture
+  ): BABYLON.RenderTargetTexture {
+    const type = target.getInternalTexture()?.type;
+    if (
+      !this._scratchRTT ||
+      this._scratchRTT.getInternalTexture()?.type !== type
+    ) {
+      this._scratchRTT?.dispose();
+      this._scratchRTT = new BABYLON.RenderTargetTexture(
+        "shadowMapDilator_scratch",
+        this._resolution,
+        this._scene,
+        false,
+        true,
+        type
+      );
+    }
+    return this._scratchRTT;
+  }
+}
@@ -0,0 +1,349 @@
+import * as BABYLON from "@babylonjs/core";
+import {
+  getLightmapRenderingMesh,
+  isLightmapMeshReady,
+} from "./lightmapInstances";
+import {
+  getSupportedTexturePrecision,
+  getTextureType,
+} from "./textureUtils";
+import { getUVKind } from "./uvUtils";
+
+/** Color, opacity and textures a transparent caster filters the light with. */
+interface TransmissionSurface {
+  color: BABYLON.Color3;
+  opacity: number;
+  colorTexture: BABYLON.BaseTexture | null;
+  opacityTexture: BABYLON.BaseTexture | null;
+  opacityFromRGB: boolean;
+}
+
+const transmissionVertexShader = (
+  colorUV: string | null,
+  opacityUV: string | null
+) => `
+  precision highp float;
+  attribute vec3 position;
+  ${[...new Set([colorUV, opacityUV])]
+    .filter((uv) => uv)
+    .map((uv) => `attribute vec2 ${uv};`)
+    .join("\n")}
+  #include<instancesDeclaration>
+  uniform mat4 transmissionViewProjection;
+  varying vec2 vDepth;
+  #ifdef COLOR_TEXTURE
+    uniform mat4 colorMatrix;
+    varying vec2 vColorUV;
+  #endif
+  #ifdef OPACITY_TEXTURE
+    uniform mat4 opacityMatrix;
+    varying vec2 vOpacityUV;
+  #endif
+
+  void main() {
+    #include<instancesVertex>
+    gl_Position = transmissionViewProjection * finalWorld * vec4(position, 1.0);
+    vDepth = gl_Position.zw;
+    #ifdef COLOR_TEXTURE
+      vColorUV = vec2(colorMatrix * vec4(${colorUV}, 1.0, 0.0));
+    #endif
+    #ifdef OPACITY_TEXTURE
+      vOpacityUV = vec2(opacityMatrix * vec4(${opacityUV}, 1.0, 0.0));
+    #endif
+  }
+`;
+
+// The light through the layer in RGB, and its depth in alpha, both kept at
+// their minimum over the layers by the blending
+const TRANSMISSION_FRAGMENT_SHADER = `
+  precision highp float;
+  uniform vec3 transmissionColor;
+  uniform float transmissionOpacity;
+  varying vec2 vDepth;
+  #ifdef COLOR_TEXTURE
+    uniform sampler2D colorSampler;
+    varying vec2 vColorUV;
+  #endif
+  #ifdef OPACITY_TEXTURE
+    uniform sampler2D opacitySampler;
+    varying vec2 vOpacityUV;
+  #endif
+
+  void main() {
+    vec3 color = transmissionColor;
+    float opacity = transmissionOpacity;
+    #ifdef COLOR_TEXTURE
+      color *= texture2D(colorSampler, vColorUV).rgb;
+    #endif
+    #ifdef OPACITY_TEXTURE
+      vec4 opacityColor = texture2D(opacitySampler, vOpacityUV);
+      #ifdef OPACITY_FROM_RGB
+        opacity *= dot(opacityColor.rgb, vec3(0.3, 0.59, 0.11));
+      #else
+        opacity *= opacityColor.a;
+      #endif
+    #endif
+    gl_FragColor = vec4(mix(vec3(1.0), color, opacity), vDepth.x / vDepth.y * 0.5 + 0.5);
+  }
+`;
+
+/**
+ * Shadow generator `ShadowTransmissionMap` renders the colored shadows of a
+ * light from: its single, non cascaded, generator. Point lights have none.
+ */
+export function getTransmissionShadowGenerator(
+  light: BABYLON.ShadowLight
+): BABYLON.ShadowGenerator | null {
+  const generator = light.getShadowGenerator();
+  return generator instanceof BABYLON.ShadowGenerator &&
+    !(generator instanceof BABYLON.CascadedShadowGenerator) &&
+    !light.needCube()
+    ? generator
+    : null;
+}
+
+/**
+ * Whether `mesh` casts colored shadows: its material is alpha blended and
+ * sets `lightmapTransmission`.
+ */
+export function isTransmissionCaster(mesh: BABYLON.AbstractMesh): boolean {
+  const material = getLightmapRenderingMesh(mesh).material;
+  return (
+    !!material?.lightmapTransmission &&
+    !(material instanceof BABYLON.MultiMaterial) &&
+    material.needAlphaBlendingForMesh(mesh)
+  );
+}
+
+/**
+ * Renders the light the transparent casters of a shadow generator let
+ * through, see `isTransmissionCaster`, from the point of view of the
+ * generator. RGB holds the color the light is filtered with and alpha the
+ * depth of the nearest caster, `clip.z / clip.w * 0.5 + 0.5` in the space of
+ * `matrix`. Overlapping casters keep the darkest color per channel rather
+ * than the product of their colors. The opaque shadows stay with the
+ * generator.
+ */
+export class ShadowTransmissionMap {
+  private _scene: BABYLON.Scene;
+  private _rtt: BABYLON.RenderTargetTexture | null = null;
+  private _materials: Map<number, BABYLON.ShaderMaterial> = new Map();
+  private _matrix: BABYLON.Matrix = BABYLON.Matrix.Identity();
+  private _generator: BABYLON.ShadowGenerator | null = null;
+  private _unsupportedLights: Set<BABYLON.ShadowLight> = new Set();
+
+  /** Depth offset of the receivers, in map depth units. */
+  public bias: number = 0.002;
+
+  constructor(scene: BABYLON.Scene) {
+    this._scene = scene;
+  }
+
+  public get texture(): BABYLON.RenderTargetTexture | null {
+    return this._rtt;
+  }
+
+  /** World to clip space matrix of the map, as of the last `render()`. */
+  public get matrix(): BABYLON.Matrix {
+    return this._matrix;
+  }
+
+  /**
+   * Sets the light the map is rendered for, and returns whether it has
+   * transparent casters. Lights without a supported generator have none,
+   * see `getTransmissionShadowGenerator`.
+   */
+  public setLight(light: BABYLON.ShadowLight): boolean {
+    this._generator = null;
+    const shadowMap = light.getShadowGenerator()?.getShadowMap();
+    const casters = (shadowMap?.renderList ?? []).filter(isTransmissionCaster);
+    if (casters.length === 0) {
+      return false;
+    }
+
+    const generator = getTransmissionShadowGenerator(light);
+    if (!generator) {
+      if (!this._unsupportedLights.has(light)) {
+        this._unsupportedLights.add(light);
+        console.warn(
+          `Light ${light.name} doesn't support colored shadows, its transparent casters are ignored.`
+        );
+      }
+      return false;
+    }
+
+    const size = shadowMap!.getSize().width;
+    if (!this._rtt || this._rtt.getSize().width !== size) {
+      this._rtt?.dispose();
+      this._rtt = this._createRTT(size);
+    }
+    this._rtt.renderList = casters;
+    for (const mesh of new Set(casters.map(getLightmapRenderingMesh))) {
+      this._rtt.setMaterialForRendering(mesh, this._getMaterial(mesh));
+    }
+    this._generator = generator;
+    return true;
+  }
+
+  public isReady(): boolean {
+    return !this._generator || this._rtt!.isReadyForRendering();
+  }
+
+  /** Renders the map for the light of `setLight`, where it is now. */
+  public render(): void {
+    if (!this._generator) {
+      return;
+    }
+
+    this._matrix.copyFrom(this._generator.getTransformMatrix());
+    for (const material of this._materials.values()) {
+      material.setMatrix("transmissionViewProjection", this._matrix);
+    }
+    this._scene.resetCachedMaterial();
+    this._rtt!.render();
+  }
+
+  public dispose(): void {
+    this._materials.forEach((material) => material.dispose());
+    this._materials.clear();
+    this._rtt?.dispose();
+    this._rtt = null;
+    this._generator = null;
+  }
+
+  private _getMaterial(mesh: BABYLON.AbstractMesh): BABYLON.ShaderMaterial {
+    const casterMaterial = mesh.material!;
+    let material = this._materials.get(casterMaterial.uniqueId);
+    if (!material) {
+      material = this._createMaterial(casterMaterial);
+      this._materials.set(casterMaterial.uniqueId, material);
+    }
+    return material;
+  }
+
+  private _createMaterial(
+    casterMaterial: BABYLON.Material
+  ): BABYLON.ShaderMaterial {
+    const surface = getTransmissionSurface(casterMaterial);
+    const attributes = ["position"];
+    const uniforms = [
+      "world",
+      "transmissionViewProjection",
+      "transmissionColor",
+      "transmissionOpacity",
+    ];
+    const samplers: string[] = [];
+    const defines: string[] = [];
+
+    const textureUV = (texture: BABYLON.BaseTexture | null, name: string) => {
+      if (!texture) {
+        return null;
+      }
+      const uvKind = getUVKind(texture.coordinatesIndex + 1);
+      if (!attributes.includes(uvKind)) {
+        attributes.push(uvKind);
+      }
+      uniforms.push(`${name}Matrix`);
+      samplers.push(`${name}Sampler`);
+      defines.push(`#define ${name.toUpperCase()}_TEXTURE`);
+      return uvKind;
+    };
+    const colorUV = textureUV(surface.colorTexture, "color");
+    const opacityUV = textureUV(surface.opacityTexture, "opacity");
+    if (surface.opacityFromRGB) {
+      defines.push("#define OPACITY_FROM_RGB");
+    }
+
+    const material = new BABYLON.ShaderMaterial(
+      `shadowTransmission_${casterMaterial.name}`,
+      this._scene,
+      {
+        vertexSource: transmissionVertexShader(colorUV, opacityUV),
+        fragmentSource: TRANSMISSION_FRAGMENT_SHADER,
+      },
+      { attributes, uniforms, samplers, defines, needAlphaBlending: true }
+    );
+    // Thin panes filter the light whichever side faces it
+    material.backFaceCulling = false;
+    material.alphaMode = BABYLON.Constants.ALPHA_MIN;
+    material.setColor3("transmissionColor", surface.color);
+    material.setFloat("transmissionOpacity", surface.opacity);
+    for (const [name, texture] of [
+      ["color", surface.colorTexture],
+      ["opacity", surface.opacityTexture],
+    ] as const) {
+      if (texture) {
+        material.setTexture(`${name}Sampler`, texture);
+        material.setMatrix(`${name}Matrix`, texture.getTextureMatrix());
+      }
+    }
+
+    return material;
+  }
+
+  // Every layer is blended, the map has no depth buffer. Float targets may
+  // not blend where half floats do.
+  private _createRTT(size: number): BABYLON.RenderTargetTexture {
+    const engine = this._scene.getEngine();
+    const rtt = new BABYLON.RenderTargetTexture(
+      "shadowTransmission",
+      size,
+      this._scene,
+      false,
+      true,
+      getTextureType(getSupportedTexturePrecision(engine, "halfFloat")),
+      false,
+      BABYLON.Texture.NEAREST_SAMPLINGMODE,
+      false
+    );
+    rtt.wrapU = BABYLON.Texture.CLAMP_ADDRESSMODE;
+    rtt.wrapV = BABYLON.Texture.CLAMP_ADDRESSMODE;
+    rtt.activeCamera = null; // Disable frustum culling
+    rtt.clearColor = new BABYLON.Color4(1, 1, 1, 1);
+    rtt.customIsReadyFunction = isLightmapMeshReady;
+
+    return rtt;
+  }
+}
+
+function getTransmissionSurface(
+  material: BABYLON.Material
+): TransmissionSurface {
+  if (material instanceof BABYLON.StandardMaterial) {
+    const { diffuseTexture, opacityTexture } = material;
+    const alphaTexture =
+      material.useAlphaFromDiffuseTexture && diffuseTexture?.hasAlpha
+        ? diffuseTexture
+        : null;
+    return {
+      color: material.diffuseColor,
+      opacity: material.alpha,
+      colorTexture: diffuseTexture,
+      opacityTexture: opacityTexture ?? alphaTexture,
+      opacityFromRGB: !!opacityTexture?.getAlphaFromRGB,
+    };
+  }
+
+  if (material instanceof BABYLON.PBRMaterial) {
+    const { albedoTexture, opacityTexture } = material;
+    const alphaTexture =
+      material.useAlphaFromAlbedoTexture && albedoTexture?.hasAlpha
+        ? albedoTexture
+        : null;
+    return {
+      color: material.albedoColor,
+      opacity: material.alpha,
+      colorTexture: albedoTexture,
+      opacityTexture: opacityTexture ?? alphaTexture,
+      opacityFromRGB: !!opacityTexture?.getAlphaFromRGB,
+    };
+  }
+
+  return {
+    color: BABYLON.Color3.White(),
+    opacity: material.alpha,
+    colorTexture: null,
+    opacityTexture: null,
+    opacityFromRGB: false,
+  };
+}
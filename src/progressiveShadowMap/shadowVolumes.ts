@@ -0,0 +1,110 @@
+import * as BABYLON from "@babylonjs/core";
+import type { AreaLightShape, Bounds } from "./types";
+
+/**
+ * World space bounding box of a mesh.
+ */
+export function getWorldBounds(mesh: BABYLON.AbstractMesh): Bounds {
+  mesh.computeWorldMatrix(true);
+  const { minimumWorld, maximumWorld } = mesh.getBoundingInfo().boundingBox;
+  return { min: minimumWorld.clone(), max: maximumWorld.clone() };
+}
+
+export function boundsIntersect(a: Bounds, b: Bounds): boolean {
+  return (
+    a.min.x <= b.max.x &&
+    a.max.x >= b.min.x &&
+    a.min.y <= b.max.y &&
+    a.max.y >= b.min.y &&
+    a.min.z <= b.max.z &&
+    a.max.z >= b.min.z
+  );
+}
+
+/**
+ * Conservative bounding box of the shadow a box casts for a light sampled
+ * over `shape`, see `ProgressiveShadowMapOptions.lightShape`. Shadows are
+ * extended `length` world units away from the light, which should cover the
+ * scene. Directional lights without a shape are jittered by `jitterRadius`.
+ */
+export function computeShadowBounds(
+  bounds: Bounds,
+  light: BABYLON.ShadowLight,
+  shape: AreaLightShape | null,
+  length: number,
+  jitterRadius: number
+): Bounds {
+  const result = { min: bounds.min.clone(), max: bounds.max.clone() };
+
+  if (shape?.type === "hemisphere") {
+    // Sky light casts shadows in every direction below the horizon
+    expandBounds(result, length);
+    return result;
+  }
+
+  if (light instanceof BABYLON.DirectionalLight) {
+    const offset = light.direction.normalizeToNew().scaleInPlace(length);
+    const far = {
+      min: bounds.min.add(offset),
+      max: bounds.max.add(offset),
+    };
+    expandBounds(far, length * jitterRadius);
+    addPoint(result, far.min);
+    addPoint(result, far.max);
+    return result;
+  }
+
+  // Point, spot and area lights project every corner away from the source,
+  // widened by the penumbra of the source's extent
+  const radius =
+    shape?.type === "rectangle"
+      ? Math.hypot(shape.width, shape.height) / 2
+      : (shape?.radius ?? light.radius);
+  for (const corner of getCorners(bounds)) {
+    const toCorner = corner.subtract(light.position);
+    const distance = toCorner.length();
+    if (distance <= radius) {
+      // The box surrounds the light, it can shadow anything
+      expandBounds(result, length);
+      return result;
+    }
+
+    const far = corner.add(toCorner.scaleInPlace(length / distance));
+    const spread = radius * (1 + length / distance);
+    addPoint(result, far.subtractFromFloats(spread, spread, spread));
+    addPoint(result, far.addInPlaceFromFloats(spread, spread, spread));
+  }
+  return result;
+}
+
+/**
+ * Bounding box of the surfaces a box can occlude in ambient occlusion bakes,
+ * which see occluders up to `radius` world units away.
+ */
+export function computeOcclusionBounds(bounds: Bounds, radius: number): Bounds {
+  const result = { min: bounds.min.clone(), max: bounds.max.clone() };
+  expandBounds(result, radius);
+  return result;
+}
+
+function getCorners({ min, max }: Bounds): BABYLON.Vector3[] {
+  const corners: BABYLON.Vector3[] = [];
+  for (const x of [min.x, max.x]) {
+    for (const y of [min.y, max.y]) {
+      for (const z of [min.z, max.z]) {
+        corners.push(new BABYLON.Vector3(x, y, z));
+      }
+    }
+  }
+  return corners;
+}
+
+function addPoint(bounds: Bounds, point: BABYLON.Vector3): void {
+  bounds.min.minimizeInPlace(point);
+  bounds.max.maximizeInPlace(point);
+}
+
+function expandBounds(bounds: Bounds, amount: number): void {
+  bounds.min.subtractFromFloatsToRef(amount, amount, amount, bounds.min);
+  bounds.max.addInPlaceFromFloats(amount, amount, amount);
+}
@@ -0,0 +1,159 @@
+import * as BABYLON from "@babylonjs/core";
+import { readLightmapPixels } from "./lightmapExport";
+import type { TexturePrecision } from "./types";
+
+// Closest alternatives of every precision, best first
+const PRECISION_FALLBACKS: Record<TexturePrecision, TexturePrecision[]> = {
+  float: ["float", "halfFloat", "byte"],
+  halfFloat: ["halfFloat", "float", "byte"],
+  byte: ["byte"],
+};
+
+export function getTextureType(precision: TexturePrecision): number {
+  switch (precision) {
+    case "float":
+      return BABYLON.Constants.TEXTURETYPE_FLOAT;
+    case "halfFloat":
+      return BABYLON.Constants.TEXTURETYPE_HALF_FLOAT;
+    case "byte":
+      return BABYLON.Constants.TEXTURETYPE_UNSIGNED_BYTE;
+  }
+}
+
+/**
+ * Returns `precision` if the engine can render to textures of that type,
+ * otherwise the closest precision it supports.
+ */
+export function getSupportedTexturePrecision(
+  engine: BABYLON.AbstractEngine,
+  precision: TexturePrecision
+): TexturePrecision {
+  const caps = engine.getCaps();
+  const isSupported = (candidate: TexturePrecision) =>
+    candidate === "float"
+      ? caps.textureFloatRender
+      : candidate === "halfFloat"
+        ? caps.textureHalfFloatRender
+        : true;
+
+  const supported = PRECISION_FALLBACKS[precision].find(isSupported)!;
+  if (supported !== precision) {
+    console.warn(
+      `${precision} render targets are not supported, using ${supported} instead.`
+    );
+  }
+  return supported;
+}
+
+/**
+ * Copies the contents of a texture into a new texture of the same size and
+ * precision, through a readback that works on every engine.
+ */
+export async function deepCloneTexture(
+  texture: BABYLON.BaseTexture
+): Promise<BABYLON.BaseTexture> {
+  const { width, height, data } = await readLightmapPixels(texture);
+  const clonedTexture = BABYLON.RawTexture.CreateRGBATexture(
+    data,
+    width,
+    height,
+    texture.getScene(),
+    false,
+    false,
+    texture.samplingMode,
+    data instanceof Float32Array
+      ? BABYLON.Constants.TEXTURETYPE_FLOAT
+      : BABYLON.Constants.TEXTURETYPE_UNSIGNED_BYTE
+  );
+  clonedTexture.name = texture.name + "_clone";
+
+  return clonedTexture;
+}
+
+/**
+ * Language of the shaders of the effect wrappers on `engine`, WGSL on WebGPU
+ * unless `EffectWrapper.ForceGLSL` is set.
+ */
+export function getEffectShaderLanguage(
+  engine: BABYLON.AbstractEngine
+): BABYLON.ShaderLanguage {
+  return engine.isWebGPU && !BABYLON.EffectWrapper.ForceGLSL
+    ? BABYLON.ShaderLanguage.WGSL
+    : BABYLON.ShaderLanguage.GLSL;
+}
+
+const COPY_FRAGMENT_SHADER = `
+  precision highp float;
+  varying vec2 vUV;
+  uniform sampler2D textureSampler;
+
+  void main() {
+    gl_FragColor = texture2D(textureSampler, vUV);
+  }
+`;
+
+const COPY_FRAGMENT_SHADER_WGSL = `
+  varying vUV: vec2f;
+  var textureSamplerSampler: sampler;
+  var textureSampler: texture_2d<f32>;
+
+  @fragment
+  fn main(input: FragmentInputs) -> FragmentOutputs {
+    fragmentOutputs.color = textureSample(textureSampler, textureSamplerSampler, input.vUV);
+  }
+`;
+
+/** Fragment shader of the copy pass, in `shaderLanguage`. */
+export function getCopyFragmentShader(
+  shaderLanguage: BABYLON.ShaderLanguage
+): string {
+  return shaderLanguage === BABYLON.ShaderLanguage.WGSL
+    ? COPY_FRAGMENT_SHADER_WGSL
+    : COPY_FRAGMENT_SHADER;
+}
+
+/**
+ * Copies textures into render targets of the same size on the GPU.
+ */
+export class TextureCopier {
+  private _renderer: BABYLON.EffectRenderer;
+  private _pass: BABYLON.EffectWrapper;
+
+  constructor(engine: BABYLON.AbstractEngine) {
+    this._renderer = new BABYLON.EffectRenderer(engine);
+    const shaderLanguage = getEffectShaderLanguage(engine);
+    this._pass = new BABYLON.EffectWrapper({
+      engine,
+      name: "textureCopy",
+      fragmentShader: getCopyFragmentShader(shaderLanguage),
+      shaderLanguage,
+      samplerNames: ["textureSampler"],
+    });
+  }
+
+  public isReady(): boolean {
+    return this._pass.effect.isReady();
+  }
+
+  public async whenReadyAsync(): Promise<void> {
+    await this._pass.effect.whenCompiledAsync();
+  }
+
+  /**
+   * Copies `source` into `target`. Does nothing until `isReady()`.
+   */
+  public copy(
+    source: BABYLON.BaseTexture,
+    target: BABYLON.RenderTargetTexture
+  ): void {
+    this._pass.onApplyObservable.addOnce(() => {
+      this._pass.effect.setTexture("textureSampler", source);
+    });
+    this._renderer.render(this._pass, target);
+  }
+
+  public dispose(): void {
+    this._pass.dispose();
+    this._renderer.dispose();
+  }
+}
@@ -0,0 +1,180 @@
+import * as BABYLON from "@babylonjs/core";
+
+declare module "@babylonjs/core" {
+  interface Material {
+    timeOfDayLightmapPlugin?: TimeOfDayLightmapMaterialPlugin;
+  }
+}
+
+// Sampling of the material's lightmap, after the includes are resolved
+const GLSL_LIGHTMAP_SAMPLE =
+  "!texture2D\\(\\s*lightmapSampler\\s*,\\s*(vLightmapUV\\s*\\+\\s*uvOffset)\\s*\\)";
+const WGSL_LIGHTMAP_SAMPLE =
+  "!textureSample\\(\\s*lightmapSampler\\s*,\\s*lightmapSamplerSampler\\s*,\\s*(fragmentInputs\\.vLightmapUV\\s*\\+\\s*uvOffset)\\s*\\)";
+
+const GLSL_DEFINITIONS = `
+  #ifdef TIME_OF_DAY_BLEND
+    uniform sampler2D timeOfDayNextLightmap;
+  #endif
+
+  vec4 timeOfDayLightmap(sampler2D lightmap, vec2 uv) {
+    #ifdef TIME_OF_DAY_BLEND
+      return mix(texture2D(lightmap, uv), texture2D(timeOfDayNextLightmap, uv), timeOfDayBlend);
+    #else
+      return texture2D(lightmap, uv);
+    #endif
+  }
+`;
+
+const WGSL_DEFINITIONS = `
+  #ifdef TIME_OF_DAY_BLEND
+    var timeOfDayNextLightmapSampler: sampler;
+    var timeOfDayNextLightmap: texture_2d<f32>;
+  #endif
+
+  #ifdef LIGHTMAP
+    fn timeOfDayLightmap(uv: vec2f) -> vec4f {
+      let lightmap = textureSample(lightmapSampler, lightmapSamplerSampler, uv);
+      #ifdef TIME_OF_DAY_BLEND
+        let nextLightmap = textureSample(timeOfDayNextLightmap, timeOfDayNextLightmapSampler, uv);
+        return mix(lightmap, nextLightmap, uniforms.timeOfDayBlend);
+      #else
+        return lightmap;
+      #endif
+    }
+  #endif
+`;
+
+/**
+ * Blends the lightmap texture of a standard or PBR material with
+ * `nextLightmap` by `blend`, so that the lightmaps of two time-of-day
+ * keyframes light the material in between them, see `TimeOfDayLightmaps`.
+ * Both lightmaps must share the UVs and the encoding of the material's
+ * lightmap, which it applies to the blend as to its own texture.
+ */
+export class TimeOfDayLightmapMaterialPlugin extends BABYLON.MaterialPluginBase {
+  private _enabled: boolean = true;
+  private _nextLightmap: BABYLON.BaseTexture | null = null;
+  private _blend: number = 0;
+
+  get enabled(): boolean {
+    return this._enabled;
+  }
+
+  set enabled(value: boolean) {
+    if (this._enabled !== value) {
+      this._enabled = value;
+      this._enable(value);
+    }
+  }
+
+  /** Lightmap blended in, `null` for the material's lightmap alone. */
+  get nextLightmap(): BABYLON.BaseTexture | null {
+    return this._nextLightmap;
+  }
+
+  set nextLightmap(value: BABYLON.BaseTexture | null) {
+    if (!this._nextLightmap !== !value) {
+      this.markAllDefinesAsDirty();
+    }
+    this._nextLightmap = value;
+  }
+
+  /** Weight of `nextLightmap`, from 0 to 1. */
+  get blend(): number {
+    return this._blend;
+  }
+
+  set blend(value: number) {
+    this._blend = value;
+  }
+
+  constructor(material: BABYLON.Material) {
+    super(material, "time-of-day-lightmap-plugin", 220, {
+      TIME_OF_DAY_BLEND: false,
+    });
+    this._enable(true);
+    // Also reached for the plugins `Material.clone` recreates from `serialize`
+    material.timeOfDayLightmapPlugin = this;
+  }
+
+  getClassName() {
+    return "TimeOfDayLightmapMaterialPlugin";
+  }
+
+  // The next lightmap is a keyframe of `TimeOfDayLightmaps`, which binds it
+  // again to the materials added to it
+  serialize(): any {
+    const serializationObject = super.serialize();
+    serializationObject.enabled = this._enabled;
+    return serializationObject;
+  }
+
+  parse(source: any, scene: BABYLON.Scene, rootUrl: string): void {
+    super.parse(source, scene, rootUrl);
+    this.enabled = source.enabled ?? this._enabled;
+  }
+
+  isCompatible(shaderLanguage: BABYLON.ShaderLanguage) {
+    return (
+      shaderLanguage === BABYLON.ShaderLanguage.GLSL ||
+      shaderLanguage === BABYLON.ShaderLanguage.WGSL
+    );
+  }
+
+  getSamplers(samplers: string[]) {
+    samplers.push("timeOfDayNextLightmap");
+  }
+
+  // WGSL declares the uniform buffer members, read from `uniforms`
+  getUniforms(shaderLanguage?: BABYLON.ShaderLanguage) {
+    const ubo = [{ name: "timeOfDayBlend", size: 1, type: "float" }];
+    if (shaderLanguage === BABYLON.ShaderLanguage.WGSL) {
+      return { ubo };
+    }
+
+    return {
+      ubo,
+      fragment: `
+        uniform float timeOfDayBlend;
+      `,
+    };
+  }
+
+  prepareDefines(defines: any) {
+    defines.TIME_OF_DAY_BLEND = !!this._nextLightmap;
+  }
+
+  getCustomCode(
+    shaderType: string,
+    shaderLanguage: BABYLON.ShaderLanguage
+  ): { [pointName: string]: string } | null {
+    if (shaderType !== "fragment") {
+      return null;
+    }
+
+    if (shaderLanguage === BABYLON.ShaderLanguage.WGSL) {
+      return {
+        CUSTOM_FRAGMENT_DEFINITIONS: WGSL_DEFINITIONS,
+        [WGSL_LIGHTMAP_SAMPLE]: "timeOfDayLightmap($1)",
+      };
+    }
+
+    return {
+      CUSTOM_FRAGMENT_DEFINITIONS: GLSL_DEFINITIONS,
+      [GLSL_LIGHTMAP_SAMPLE]: "timeOfDayLightmap(lightmapSampler, $1)",
+    };
+  }
+
+  bindForSubMesh(uniformBuffer: BABYLON.UniformBuffer) {
+    uniformBuffer.updateFloat("timeOfDayBlend", this._blend);
+    if (this._nextLightmap) {
+      uniformBuffer.setTexture("timeOfDayNextLightmap", this._nextLightmap);
+    }
+  }
+}
+
+BABYLON.RegisterClass(
+  "BABYLON.TimeOfDayLightmapMaterialPlugin",
+  TimeOfDayLightmapMaterialPlugin
+);
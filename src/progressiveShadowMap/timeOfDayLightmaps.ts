@@ -0,0 +1,168 @@
+import * as BABYLON from "@babylonjs/core";
+import { bindMaterialLightmap } from "./materialLightmaps";
+import type { MaterialLightmapBinding } from "./materialLightmaps";
+import { TimeOfDayLightmapMaterialPlugin } from "./timeOfDayLightmapMaterialPlugin";
+import type { LightmapKeyframe, TimeOfDayLightmapsOptions } from "./types";
+
+interface TimeOfDayMaterial {
+  binding: MaterialLightmapBinding;
+  page: number;
+}
+
+/**
+ * Keyframes to blend at `time`: the last one at or before it, the next one,
+ * and the weight of the next one. `times` must be sorted. With a `period`,
+ * the last keyframe blends into the first one of the next day.
+ */
+export function getKeyframeBlend(
+  times: number[],
+  time: number,
+  period: number | null
+): { from: number; to: number; blend: number } {
+  const count = times.length;
+  if (count < 2) {
+    return { from: 0, to: 0, blend: 0 };
+  }
+
+  if (period === null) {
+    if (time <= times[0]) {
+      return { from: 0, to: 0, blend: 0 };
+    }
+    if (time >= times[count - 1]) {
+      return { from: count - 1, to: count - 1, blend: 0 };
+    }
+  }
+
+  const wrap = (value: number) =>
+    period === null ? value : ((value % period) + period) % period;
+  const dayTime = wrap(time);
+  let from = count - 1;
+  for (let i = 0; i < count; i++) {
+    if (wrap(times[i]) <= dayTime) {
+      from = i;
+    }
+  }
+  const to = (from + 1) % count;
+  const span = wrap(times[to] - times[from]) || period || 1;
+
+  return { from, to, blend: wrap(dayTime - wrap(times[from])) / span };
+}
+
+/**
+ * Lights materials with the keyframe lightmaps of
+ * `ProgressiveShadowMap.renderKeyframes` at a time of day, blending the two
+ * keyframes around it through a `TimeOfDayLightmapMaterialPlugin`. The
+ * materials read the lightmap of the earlier keyframe as their lightmap
+ * texture, used as a shadow map like by `bindMaterialLightmap`.
+ */
+export class TimeOfDayLightmaps {
+  private _keyframes: LightmapKeyframe[];
+  private _period: number | null;
+  private _time: number;
+  private _materials: Map<number, TimeOfDayMaterial> = new Map();
+
+  constructor(
+    keyframes: LightmapKeyframe[],
+    { period = 24, time }: TimeOfDayLightmapsOptions = {}
+  ) {
+    if (keyframes.length === 0) {
+      throw new Error("Time of day lightmaps need at least one keyframe.");
+    }
+
+    this._keyframes = [...keyframes].sort((a, b) => a.time - b.time);
+    this._period = period;
+    this._time = time ?? this._keyframes[0].time;
+  }
+
+  public get keyframes(): readonly LightmapKeyframe[] {
+    return this._keyframes;
+  }
+
+  public get period(): number | null {
+    return this._period;
+  }
+
+  /** Time of day the materials are lit at, in the unit of the keyframes. */
+  public get time(): number {
+    return this._time;
+  }
+
+  public set time(value: number) {
+    this._time = value;
+    this._update();
+  }
+
+  /**
+   * Lights a material with the keyframe lightmaps of an atlas page, see
+   * `ProgressiveShadowMap.getMeshPage`. Returns false for materials without
+   * a lightmap texture slot, i.e. other than standard and PBR materials.
+   */
+  public addMaterial(material: BABYLON.Material, page: number = 0): boolean {
+    if (this._materials.has(material.uniqueId)) {
+      this._materials.get(material.uniqueId)!.page = page;
+      this._update();
+      return true;
+    }
+
+    const binding = bindMaterialLightmap(material);
+    if (!binding || binding.material instanceof BABYLON.NodeMaterial) {
+      return false;
+    }
+
+    material.timeOfDayLightmapPlugin ??= new TimeOfDayLightmapMaterialPlugin(
+      material
+    );
+    material.timeOfDayLightmapPlugin.enabled = true;
+    this._materials.set(material.uniqueId, { binding, page });
+    this._update();
+    return true;
+  }
+
+  /** Puts back the lightmap the material had before `addMaterial`. */
+  public removeMaterial(material: BABYLON.Material): void {
+    const entry = this._materials.get(material.uniqueId);
+    if (!entry) {
+      return;
+    }
+
+    this._restoreMaterial(entry);
+    this._materials.delete(material.uniqueId);
+  }
+
+  /**
+   * Restores every material. The keyframe lightmaps belong to the caller and
+   * are left as they are.
+   */
+  public dispose(): void {
+    this._materials.forEach((entry) => this._restoreMaterial(entry));
+    this._materials.clear();
+  }
+
+  private _update(): void {
+    const { from, to, blend } = getKeyframeBlend(
+      this._keyframes.map((keyframe) => keyframe.time),
+      this._time,
+      this._period
+    );
+
+    for (const { binding, page } of this._materials.values()) {
+      const lightmap = this._keyframes[from].pages[page];
+      const nextLightmap = this._keyframes[to].pages[page];
+      if (!lightmap || !nextLightmap) {
+        throw new Error(`Lightmap keyframes have no page ${page}.`);
+      }
+
+      binding.apply(lightmap as BABYLON.Texture);
+      const plugin = binding.material.timeOfDayLightmapPlugin!;
+      plugin.nextLightmap = to !== from ? nextLightmap : null;
+      plugin.blend = blend;
+    }
+  }
+
+  private _restoreMaterial({ binding }: TimeOfDayMaterial): void {
+    binding.restore();
+    if (binding.material.timeOfDayLightmapPlugin) {
+      binding.material.timeOfDayLightmapPlugin.enabled = false;
+    }
+  }
+}
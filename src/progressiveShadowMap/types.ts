@@ -0,0 +1,490 @@
+import type * as BABYLON from "@babylonjs/core";
+
+export interface Box {
+  w: number;
+  h: number;
+  x?: number;
+  y?: number;
+  originalUv?: BABYLON.FloatArray;
+  minU?: number;
+  maxU?: number;
+  minV?: number;
+  maxV?: number;
+}
+
+/** Axis aligned bounding box. */
+export interface Bounds {
+  min: BABYLON.Vector3;
+  max: BABYLON.Vector3;
+}
+
+/**
+ * A group of vertices laid out as one rectangle in the lightmap atlas.
+ */
+export interface LightmapChart {
+  /** First vertex of the chart. Charts cover contiguous vertex ranges. */
+  vertexStart: number;
+  vertexCount: number;
+  /** Per-vertex coordinates in world units, relative to the chart's lower corner. */
+  coords: Float32Array;
+  /** Extents of the chart in world units. */
+  width: number;
+  height: number;
+}
+
+export interface AtlasPackingOptions {
+  /** Size of the square atlas in texels. */
+  resolution: number;
+  /** Target texel density. `null` picks the largest density that fits the atlas. */
+  texelsPerUnit: number | null;
+  /** Empty texels kept between neighbouring charts. */
+  padding: number;
+  /** Pages to spread meshes over before the texel density is lowered. */
+  maxPages?: number;
+}
+
+export interface AtlasPackingResult {
+  /** Texel offset of each chart's lower corner, in the order of the input charts. */
+  placements: { x: number; y: number }[];
+  /** Texel density the charts were packed with. */
+  texelsPerUnit: number;
+  /** Extents of the packed area in texels. */
+  width: number;
+  height: number;
+  /** Share of the packed area covered by charts, including their padding. */
+  fill: number;
+}
+
+export interface AtlasPage {
+  /** Indices of the meshes on this page, in packing order. */
+  meshIndices: number[];
+  /** Placements of the charts of `meshIndices`, flattened in the same order. */
+  packing: AtlasPackingResult;
+}
+
+export interface AtlasLayout {
+  pages: AtlasPage[];
+  /** Page of every input mesh, -1 for meshes without charts. */
+  meshPages: number[];
+  /** Texel density shared by all pages. */
+  texelsPerUnit: number;
+}
+
+export type LightmapExportFormat = "png" | "hdr" | "exr" | "ktx2";
+
+/**
+ * RGBA pixels read back from a shadow map, rows starting at v = 0.
+ */
+export interface LightmapPixels {
+  width: number;
+  height: number;
+  data: Uint8Array | Float32Array;
+}
+
+/**
+ * Texel storage of shadow maps:
+ * - `byte` is 8-bit unsigned normalized, clamped to [0, 1].
+ * - `halfFloat` is 16-bit float.
+ * - `float` is 32-bit float.
+ */
+export type TexturePrecision = "byte" | "halfFloat" | "float";
+
+/**
+ * How lightmap UVs are generated by `addMeshes`:
+ * - `reuseUV1` remaps each mesh's UV1 bounding box into the atlas.
+ * - `unwrap` computes non-overlapping UVs from the mesh geometry.
+ */
+export type UV2GenerationMode = "reuseUV1" | "unwrap";
+
+export interface LightmapUnwrapOptions {
+  /** Maximum angle in degrees between the normals of triangles in one chart. */
+  maxChartAngle?: number;
+}
+
+/**
+ * Physical shape a light is sampled over while baking. Larger shapes give
+ * softer shadows.
+ * - `sphere` jitters the position of point and spot lights within `radius`,
+ *   which defaults to the light's own `radius`.
+ * - `rectangle` jitters the position of point and spot lights over a
+ *   rectangle facing the light direction.
+ * - `hemisphere` turns a directional light into a sky light by sampling
+ *   directions over the hemisphere the light shines from, which bakes ambient
+ *   occlusion.
+ */
+export type AreaLightShape =
+  | { type: "sphere"; radius?: number }
+  | { type: "rectangle"; width: number; height: number }
+  | { type: "hemisphere" };
+
+/**
+ * What `render()` accumulates into the shadow maps:
+ * - `shadow` renders the baked meshes' materials lit by the jittered lights.
+ * - `ambientOcclusion` stores the fraction of each texel's hemisphere that is
+ *   not occluded by the scene's meshes in the red channel, see
+ *   `AmbientOcclusionOptions`. The lights are ignored.
+ * - `irradiance` accumulates the HDR light the baked surfaces reflect, direct
+ *   and bounced between surfaces, see `IrradianceOptions`. It is added to the
+ *   materials' color instead of being used as a shadow map, and the baked
+ *   lights stop lighting the baked meshes while it is applied.
+ */
+export type BakeMode = "shadow" | "ambientOcclusion" | "irradiance";
+
+export interface AmbientOcclusionOptions {
+  /** Number of sampled directions. Defaults to `blendWindow`. */
+  samples?: number | null;
+  /** Occluders further than this world distance are ignored, `null` for all. */
+  radius?: number | null;
+  /**
+   * World distance a surface has to be behind an occluder to be occluded.
+   * Defaults to two texels of the occlusion depth maps.
+   */
+  bias?: number | null;
+  /**
+   * Stores the average unoccluded direction in the green, blue and alpha
+   * channels, in world space and encoded as `0.5 + 0.5 * direction`.
+   * Otherwise those channels repeat the occlusion, with an alpha of 1.
+   */
+  bentNormals?: boolean;
+  /** Width and height of the depth maps occlusion is tested against. */
+  depthResolution?: number;
+}
+
+/**
+ * Indirect lighting settings of irradiance bakes. Every bounce gathers the
+ * light reflected by the previous result from sampled directions, occluders
+ * that are not baked reflect nothing.
+ */
+export interface IrradianceOptions {
+  /** Number of indirect bounces, 0 for direct lighting only. */
+  bounces?: number;
+  /** Number of sampled directions per bounce. Defaults to `blendWindow`. */
+  samples?: number | null;
+  /** See `AmbientOcclusionOptions.bias`. */
+  bias?: number | null;
+  /** Width and height of the maps the bounced light is gathered from. */
+  depthResolution?: number;
+}
+
+/**
+ * How each new sample is blended into the accumulated result:
+ * - `mean` weighs sample `n` by `1 / (n + 1)`, giving the exact average.
+ * - `ema` weighs every sample by `blendFactor`, an exponential moving average
+ *   that favours the latest samples.
+ */
+export type BlendMode = "mean" | "ema";
+
+export type SampleSequenceType =
+  | "halton"
+  | "hammersley"
+  | "blueNoise"
+  | "stratified";
+
+/**
+ * Source of the 2D samples used to jitter lights. Samples are in [0, 1)².
+ */
+export interface SampleSequence {
+  sample(index: number, count: number): [number, number];
+}
+
+/**
+ * Filtering applied to a finished bake. Samples are only gathered from the
+ * same chart, so islands never bleed into each other.
+ */
+export interface DenoiseOptions {
+  /** Standard deviation of the Gaussian blur, in texels. */
+  sigma?: number;
+  /** Blur radius in texels. Defaults to `ceil(2 * sigma)`. */
+  radius?: number | null;
+  /**
+   * Weighs samples by how close their world position and normal are to the
+   * filtered texel's, which keeps contact shadows and creases sharp.
+   */
+  edgeAware?: boolean;
+  /**
+   * World distance at which samples lose most of their weight. Defaults to
+   * the size of two texels.
+   */
+  positionSigma?: number | null;
+  /** Exponent applied to the cosine between normals. */
+  normalPower?: number;
+  /** Blend between the accumulated (0) and the filtered (1) shadow map. */
+  strength?: number;
+}
+
+export interface BakeLightOptions {
+  /** Scale applied to the light's contribution to the bake. */
+  weight?: number;
+  /** Number of samples taken for this light. Defaults to `blendWindow`. */
+  samples?: number;
+  /** Shape the light is sampled over, see `ProgressiveShadowMapOptions.lightShape`. */
+  shape?: AreaLightShape | null;
+}
+
+export interface ProgressiveShadowMapOptions {
+  /** Width and height of the shadow map render targets, in texels. */
+  resolution?: number;
+  /** Number of jittered samples accumulated by `render()` for each light. */
+  blendWindow?: number;
+  /** Minimum time in milliseconds between two blend iterations. */
+  waitBetweenRenders?: number;
+  /** Tangent of the half-angle of the cone directional lights are sampled in. */
+  jitterRadius?: number;
+  /**
+   * Shape the light is sampled over. `null` jitters directional lights by
+   * `jitterRadius` and treats point and spot lights as spheres.
+   */
+  lightShape?: AreaLightShape | null;
+  /**
+   * Accumulates the luminance of every light into its own RGBA channel, in the
+   * order the lights were added, instead of combining them. Supports up to 4
+   * lights.
+   */
+  separateLightChannels?: boolean;
+  /** How samples are blended into the accumulated result. */
+  blendMode?: BlendMode;
+  /** Weight of the newest sample when `blendMode` is `ema`. */
+  blendFactor?: number;
+  /** Sequence the light samples are drawn from. */
+  sampleSequence?: SampleSequenceType | SampleSequence;
+  /** Seed of the built-in sample sequences. Each light is offset from it. */
+  seed?: number;
+  /** UV set (1-based, like `uv2`) the shadow map is written to and read from. */
+  uvChannel?: number;
+  /** Source of the lightmap UVs written by `addMeshes`. */
+  uvGenerationMode?: UV2GenerationMode;
+  /** Chart splitting settings used when `uvGenerationMode` is `unwrap`. */
+  unwrapOptions?: LightmapUnwrapOptions;
+  /**
+   * Keeps the lightmap UVs, and the vertices the unwrapper rebuilt, on the
+   * meshes when the shadow map is disposed. Otherwise their geometry is
+   * restored, and so are the UVs they had in `uvChannel`.
+   */
+  keepGeneratedUVs?: boolean;
+  /** Target lightmap texels per world unit. `null` fills the shadow map. */
+  texelsPerUnit?: number | null;
+  /** Empty texels kept between neighbouring charts to avoid bleeding. */
+  padding?: number;
+  /**
+   * Maximum number of `resolution` sized atlas pages. Meshes that don't fit a
+   * page at `texelsPerUnit` move to the next one before the density is lowered.
+   */
+  maxPages?: number;
+  /**
+   * Assigns the shadow map to the material of every baked mesh after each
+   * blend iteration, see `ProgressiveShadowMap.applyToMaterials`.
+   */
+  applyToMaterials?: boolean;
+  /** What the bake accumulates, see `BakeMode`. */
+  bakeMode?: BakeMode;
+  /** Sampling settings used when `bakeMode` is `ambientOcclusion`. */
+  ambientOcclusion?: AmbientOcclusionOptions;
+  /** Bounce settings used when `bakeMode` is `irradiance`. */
+  irradiance?: IrradianceOptions;
+  /**
+   * Storage of the render targets samples are accumulated in. Float targets
+   * avoid the banding of blending many 8-bit samples, and fall back to the
+   * closest precision the engine can render to. `null` uses `byte`, or
+   * `float` when `bakeMode` is `irradiance`.
+   */
+  accumulationPrecision?: TexturePrecision | null;
+  /**
+   * Precision exported shadow maps are resolved to, see
+   * `ProgressiveShadowMap.exportShadowMap`. `null` keeps the accumulation
+   * precision.
+   */
+  outputPrecision?: TexturePrecision | null;
+  /** Filters the shadow maps once a bake completes, `null` to disable. */
+  denoise?: DenoiseOptions | null;
+  /**
+   * Texels the charts are grown by into the empty space around them once a
+   * bake completes, which hides the clear color from bilinear filtering and
+   * mipmaps. Should not exceed `padding`.
+   */
+  dilation?: number;
+  /**
+   * Averages the texels on both sides of chart seams, edges shared in 3D by
+   * charts that are apart in the atlas, once a bake completes.
+   */
+  stitchSeams?: boolean;
+  /**
+   * Name of the texture block node materials receive the shadow map in, or
+   * the ambient occlusion when `bakeMode` is `ambientOcclusion`.
+   */
+  nodeMaterialLightmapBlock?: string;
+  /**
+   * Removes baked meshes from the scene's shadow generators while the bake is
+   * applied, as their shadows are already part of the shadow map.
+   */
+  disableShadowCasting?: boolean;
+}
+
+/**
+ * Steps run by `ProgressiveShadowMap.postProcess`, in this order. Each
+ * defaults to the shadow map's option of the same name.
+ */
+export type ShadowMapPostProcessOptions = Pick<
+  ProgressiveShadowMapOptions,
+  "denoise" | "stitchSeams" | "dilation"
+>;
+
+/**
+ * Bake settings stored in a bake manifest. Custom sample sequences are
+ * recorded as `custom`.
+ */
+export interface BakeManifestSettings {
+  /** Defaults to `shadow`. */
+  bakeMode?: BakeMode;
+  resolution: number;
+  uvChannel: number;
+  uvGenerationMode: UV2GenerationMode;
+  texelsPerUnit: number;
+  padding: number;
+  blendWindow: number;
+  blendMode: BlendMode;
+  sampleSequence: SampleSequenceType | "custom";
+  seed: number;
+}
+
+export interface BakeManifestPage {
+  /**
+   * PNG data URL or image file URL of the accumulated shadow map, `null` when
+   * the page wasn't baked.
+   */
+  image: string | null;
+  width: number;
+  height: number;
+}
+
+export interface BakeManifestMesh {
+  name: string;
+  id: string;
+  /** Index of the atlas page the mesh was packed into. */
+  page: number;
+  /** Lightmap UVs, one pair per vertex after `vertexRemap` is applied. */
+  uvs: number[];
+  /** Hash of the positions and indices the mesh had before it was baked. */
+  geometryHash: string;
+  /** Vertex duplication done by the unwrapper, see `LightmapUnwrapResult`. */
+  vertexRemap?: number[];
+  indices?: number[];
+  /**
+   * Atlas scale and offset of every instance, for meshes whose `uvs` are
+   * shared with other instances, see `setLightmapScaleOffsets`.
+   */
+  lightmapScaleOffsets?: number[];
+}
+
+/**
+ * Serializable snapshot of a finished bake, see
+ * `ProgressiveShadowMap.createBakeManifest` and `applyBakeManifest`.
+ */
+export interface BakeManifest {
+  version: number;
+  settings: BakeManifestSettings;
+  pages: BakeManifestPage[];
+  meshes: BakeManifestMesh[];
+}
+
+export interface BakeManifestOptions {
+  /**
+   * URL every page's image is loaded from, e.g. a PNG file written with
+   * `exportShadowMap` next to the manifest, or `null` for unbaked pages.
+   * `null` reads the pages back and embeds them as data URLs, which requires
+   * an engine that can render.
+   */
+  pageImageUrl?: ((pageIndex: number) => string | null) | null;
+}
+
+/**
+ * How lightmaps are attached to glTF materials:
+ * - `occlusion` uses the core `occlusionTexture`, understood by every viewer
+ *   but only applied to indirect lighting.
+ * - `extension` uses the `MOZ_lightmap` material extension.
+ */
+export type GLTFLightmapMode = "occlusion" | "extension";
+
+export interface BakedGLBExportOptions {
+  /** Name of the exported file, without extension. */
+  fileName?: string;
+  lightmapMode?: GLTFLightmapMode;
+  /** Intensity written to the `MOZ_lightmap` extension. */
+  lightmapIntensity?: number;
+  /** Filters the scene nodes that are exported. */
+  shouldExportNode?: (node: BABYLON.Node) => boolean;
+}
+
+export type BakeJobState = "running" | "paused" | "completed" | "cancelled";
+
+export interface BakeProgress {
+  /** Number of blend iterations rendered so far. */
+  iteration: number;
+  totalIterations: number;
+  /** Time spent baking in milliseconds, excluding pauses. */
+  elapsed: number;
+  /** Estimated remaining time in milliseconds, `null` before the first iteration. */
+  eta: number | null;
+}
+
+/**
+ * Settings file of `runHeadlessBake`, JSON serializable as long as the
+ * sample sequence is named.
+ */
+export interface HeadlessBakeSettings {
+  options?: ProgressiveShadowMapOptions;
+  /** Names of the meshes to bake, `null` for every mesh with geometry. */
+  meshes?: string[] | null;
+  /** Names of the lights to bake, `null` for every shadow light. */
+  lights?: string[] | null;
+  /**
+   * Image formats every page is written in. The manifest references the PNG
+   * pages when `png` is written, and embeds them otherwise.
+   */
+  formats?: LightmapExportFormat[];
+  /**
+   * Whether the lights are baked. `null` bakes unless the engine is a
+   * `NullEngine`, which can only generate the lightmap UVs, pack them and
+   * write a manifest whose pages have no image.
+   */
+  render?: boolean | null;
+}
+
+export interface BakeRenderOptions {
+  /** Cancels the bake when aborted. */
+  signal?: AbortSignal;
+}
+
+/** Sun of a time-of-day keyframe, see `ProgressiveShadowMap.renderKeyframes`. */
+export interface TimeOfDayKeyframe {
+  /** Time of day of the keyframe, e.g. in hours. */
+  time: number;
+  /** Direction of the light at that time. */
+  direction: BABYLON.Vector3;
+  /** Intensity of the light at that time. Defaults to its current one. */
+  intensity?: number;
+}
+
+/** Baked lightmaps of a time-of-day keyframe. */
+export interface LightmapKeyframe {
+  time: number;
+  /** Lightmap of every atlas page, in page order. */
+  pages: BABYLON.BaseTexture[];
+}
+
+export interface KeyframeBakeOptions extends BakeRenderOptions {
+  /** Light the keyframes place. Defaults to the first light of the bake. */
+  light?: BABYLON.ShadowLight;
+  /** Called with the lightmaps of every keyframe once it is baked. */
+  onKeyframe?: (keyframe: LightmapKeyframe, index: number) => void;
+}
+
+export interface TimeOfDayLightmapsOptions {
+  /**
+   * Length of a day in the unit of the keyframe times, after which the last
+   * keyframe blends back into the first. `null` holds the first and last
+   * keyframes before and after them instead.
+   */
+  period?: number | null;
+  /** Time of day to start at. Defaults to the time of the first keyframe. */
+  time?: number;
+}
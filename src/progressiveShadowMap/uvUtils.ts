@@ -0,0 +1,214 @@
+import * as BABYLON from "@babylonjs/core";
+import type { Box, LightmapChart } from "./types";
+
+export function getUVKind(uvChannel: number): string {
+  return uvChannel === 1
+    ? BABYLON.VertexBuffer.UVKind
+    : `${BABYLON.VertexBuffer.UVKind}${uvChannel}`;
+}
+
+/**
+ * Rebuilds every vertex buffer of `mesh` so that output vertex `i` is a copy of
+ * source vertex `vertexRemap[i]`, then installs `indices`. Sub-meshes keep their
+ * index ranges, which is valid as long as the triangle order is unchanged.
+ */
+export function applyVertexRemap(
+  mesh: BABYLON.Mesh,
+  vertexRemap: Uint32Array,
+  indices: Uint32Array
+): void {
+  const subMeshes = getSubMeshRanges(mesh);
+
+  // Per-instance data, such as thin instance matrices, isn't per vertex. The
+  // data is read before any buffer is replaced, as replacing the positions
+  // changes the vertex count the other buffers are read with
+  const buffers = mesh.getVerticesDataKinds(true).flatMap((kind) => {
+    const vertexBuffer = mesh.getVertexBuffer(kind, true);
+    if (!vertexBuffer || vertexBuffer.getIsInstanced()) return [];
+    const data = mesh.getVerticesData(kind, false, false, true);
+    return data ? [{ kind, vertexBuffer, data }] : [];
+  });
+
+  for (const { kind, vertexBuffer, data } of buffers) {
+    const stride = vertexBuffer.getSize();
+    const remapped = new Float32Array(vertexRemap.length * stride);
+    for (let i = 0; i < vertexRemap.length; i++) {
+      for (let c = 0; c < stride; c++) {
+        remapped[i * stride + c] = data[vertexRemap[i] * stride + c];
+      }
+    }
+    mesh.setVerticesData(kind, remapped, vertexBuffer.isUpdatable(), stride);
+  }
+
+  mesh.setIndices(indices, vertexRemap.length);
+  setSubMeshRanges(mesh, subMeshes);
+}
+
+/** Material and index range of every sub-mesh of a mesh. */
+export interface SubMeshRange {
+  materialIndex: number;
+  indexStart: number;
+  indexCount: number;
+}
+
+export function getSubMeshRanges(mesh: BABYLON.AbstractMesh): SubMeshRange[] {
+  return (mesh.subMeshes ?? []).map((subMesh) => ({
+    materialIndex: subMesh.materialIndex,
+    indexStart: subMesh.indexStart,
+    indexCount: subMesh.indexCount,
+  }));
+}
+
+/**
+ * Recreates the sub-meshes of `getSubMeshRanges` after the indices of a mesh
+ * were replaced, which leaves it a single global sub-mesh.
+ */
+export function setSubMeshRanges(
+  mesh: BABYLON.AbstractMesh,
+  subMeshes: SubMeshRange[]
+): void {
+  if (subMeshes.length > 1) {
+    mesh.subMeshes = [];
+    for (const subMesh of subMeshes) {
+      BABYLON.SubMesh.CreateFromIndices(
+        subMesh.materialIndex,
+        subMesh.indexStart,
+        subMesh.indexCount,
+        mesh
+      );
+    }
+  }
+}
+
+export function getWorldPositions(
+  mesh: BABYLON.AbstractMesh
+): Float32Array | null {
+  const positions = mesh.getVerticesData(BABYLON.VertexBuffer.PositionKind);
+  if (!positions) {
+    return null;
+  }
+
+  const worldMatrix = mesh.computeWorldMatrix(true);
+  const worldPositions = new Float32Array(positions.length);
+  const position = new BABYLON.Vector3();
+  for (let i = 0; i < positions.length; i += 3) {
+    BABYLON.Vector3.TransformCoordinatesFromFloatsToRef(
+      positions[i],
+      positions[i + 1],
+      positions[i + 2],
+      worldMatrix,
+      position
+    );
+    position.toArray(worldPositions, i);
+  }
+
+  return worldPositions;
+}
+
+/**
+ * Sums the area of all triangles, reading `dimensions` (2 or 3) components per
+ * vertex from `data`. Non-indexed data is treated as a triangle list.
+ */
+export function computeSurfaceArea(
+  data: BABYLON.FloatArray,
+  indices: BABYLON.IndicesArray | null,
+  dimensions: 2 | 3
+): number {
+  const indexCount = indices ? indices.length : data.length / dimensions;
+  const vertexAt = (i: number) => (indices ? indices[i] : i) * dimensions;
+
+  let area = 0;
+  for (let i = 0; i + 2 < indexCount; i += 3) {
+    const a = vertexAt(i);
+    const b = vertexAt(i + 1);
+    const c = vertexAt(i + 2);
+    const e1x = data[b] - data[a];
+    const e1y = data[b + 1] - data[a + 1];
+    const e2x = data[c] - data[a];
+    const e2y = data[c + 1] - data[a + 1];
+
+    if (dimensions === 2) {
+      area += Math.abs(e1x * e2y - e1y * e2x) / 2;
+    } else {
+      const e1z = data[b + 2] - data[a + 2];
+      const e2z = data[c + 2] - data[a + 2];
+      const nx = e1y * e2z - e1z * e2y;
+      const ny = e1z * e2x - e1x * e2z;
+      const nz = e1x * e2y - e1y * e2x;
+      area += Math.sqrt(nx * nx + ny * ny + nz * nz) / 2;
+    }
+  }
+
+  return area;
+}
+
+/**
+ * Bounding box of 2D coordinates, `w` and `h` are 0 for empty data.
+ */
+export function computeUVBox(uvs: BABYLON.FloatArray): Box {
+  if (uvs.length === 0) {
+    return { w: 0, h: 0, minU: 0, maxU: 0, minV: 0, maxV: 0 };
+  }
+
+  let minU = Infinity,
+    maxU = -Infinity;
+  let minV = Infinity,
+    maxV = -Infinity;
+  for (let i = 0; i < uvs.length; i += 2) {
+    minU = Math.min(minU, uvs[i]);
+    maxU = Math.max(maxU, uvs[i]);
+    minV = Math.min(minV, uvs[i + 1]);
+    maxV = Math.max(maxV, uvs[i + 1]);
+  }
+
+  return {
+    w: maxU - minU,
+    h: maxV - minV,
+    originalUv: uvs,
+    minU,
+    maxU,
+    minV,
+    maxV,
+  };
+}
+
+/**
+ * Lays out the UV1 of a mesh as a single chart, scaled so that it has the
+ * same area as the mesh surface. Returns `null` when the UVs don't match the
+ * positions or have no extent along either axis.
+ */
+export function createUV1Chart(
+  uvs: BABYLON.FloatArray,
+  worldPositions: BABYLON.FloatArray,
+  indices: BABYLON.IndicesArray | null
+): LightmapChart | null {
+  const vertexCount = worldPositions.length / 3;
+  if (uvs.length !== vertexCount * 2) {
+    return null;
+  }
+
+  const box = computeUVBox(uvs);
+  // Also rejects non-finite UVs
+  if (!(box.w > 0 && box.h > 0 && Number.isFinite(box.w * box.h))) {
+    return null;
+  }
+
+  const uvArea = computeSurfaceArea(uvs, indices, 2) || box.w * box.h;
+  const worldPerUv = Math.sqrt(
+    computeSurfaceArea(worldPositions, indices, 3) / uvArea
+  );
+
+  const coords = new Float32Array(uvs.length);
+  for (let i = 0; i < uvs.length; i += 2) {
+    coords[i] = (uvs[i] - box.minU!) * worldPerUv;
+    coords[i + 1] = (uvs[i + 1] - box.minV!) * worldPerUv;
+  }
+
+  return {
+    vertexStart: 0,
+    vertexCount,
+    coords,
+    width: box.w * worldPerUv,
+    height: box.h * worldPerUv,
+  };
+}